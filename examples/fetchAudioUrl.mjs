@@ -13,27 +13,17 @@ const wrapper = await InnertubeFactory.getWrappedInstance({
   }
 });
 
-const innertube = await wrapper.getInnertube();
-const contentPot = (await wrapper.generatePoToken(videoId)).poToken;
-const info = await innertube.getBasicInfo(videoId, {
-  client: 'YTMUSIC',
-  po_token: (await wrapper.getSessionPoToken()).poToken
-});
-
-const audioUrl = await info
-  .chooseFormat({
-    quality: 'best',
-    type: 'audio'
-  })
-  .decipher(innertube.session.player);
-
-// Innertube sets `pot` searchParam of URL to session-bound PO token.
-// Seems YouTube now requires `pot` to be the *content-bound* token, otherwise we'll get 403.
+// Obtains PO tokens, fetches streaming data, then chooses and deciphers
+// a format. The `pot` param of the returned URL is set to the
+// *content-bound* PO token, which YouTube now requires (otherwise we'll get 403).
 // See: https://github.com/TeamNewPipe/NewPipeExtractor/issues/1392
-const fixedUrl = new URL(audioUrl);
-fixedUrl.searchParams.set('pot', contentPot);
+const stream = await wrapper.resolveStream(videoId, {
+  type: 'audio',
+  client: 'YTMUSIC'
+});
 
-console.log(`Audio URL for video "${videoId}":`, fixedUrl.toString());
+console.log(`Audio URL for video "${videoId}":`, stream.url);
+console.log('Format:', stream.format);
 
 await wrapper.dispose();
 process.exit(0);
@@ -3,5 +3,61 @@ export * from './lib/innertube/Factory';
 export * from './lib/innertube/Wrapper';
 export type { EvalFnResult } from './lib/innertube/Server';
 export type { PoTokenData } from './lib/innertube/PoToken';
+export type { DecipherCacheStats } from './lib/innertube/DecipherCache';
+export type { PoTokenCacheStats } from './lib/innertube/PoTokenCache';
+export * from './lib/innertube/ClientProfile';
+export {
+  HealthCheckError,
+  type HealthCheckResult,
+  type HealthReport
+} from './lib/innertube/Health';
+export {
+  NoMatchingStreamFormatError,
+  StreamDecipherError,
+  type ResolvedStream,
+  type ResolvedStreamFormat,
+  type ResolveStreamOptions,
+  type StreamFormatPreferences,
+  type StreamType
+} from './lib/innertube/Stream';
+export {
+  detectJsRuntime,
+  detectJsRuntimes,
+  type JsRuntime,
+  type JsRuntimeOption,
+  type JsRuntimePaths,
+  type JsRuntimeRejectionReason,
+  type JsRuntimeStatus,
+  type ServiceSandboxLevel
+} from './lib/innertube/Runtime';
+export {
+  DenoPermissionError,
+  type DenoPermissions
+} from './lib/innertube/DenoPermissions';
+export type {
+  LatencyPercentiles,
+  ServiceErrorInfo,
+  ServiceMetricsSnapshot
+} from './lib/innertube/Metrics';
+export {
+  ServiceEvalError,
+  type ServiceEvalErrorCode,
+  type EvalLimits,
+  type InnertubeSupportServiceDiagnostics,
+  type MinterInfo,
+  type InnertubeSupportServiceTransport
+} from './lib/innertube/Protocol';
+export {
+  DEFAULT_SERVICE_START_TIMEOUT,
+  ServiceHandshakeError,
+  ServiceSpawnError,
+  ServiceStartTimeoutError
+} from './lib/innertube/Spawn';
+export {
+  ServiceAttachError,
+  type InnertubeSupportDaemonEndpoint
+} from './lib/innertube/Attach';
+export type { InnertubeSupportDaemonConfig } from './lib/innertube/Daemon';
+export * from './lib/innertube/StreamResolver';
 export * from './lib/volumio/AutoplayManager';
 export * from './lib/volumio/ExternalPlayerManager';
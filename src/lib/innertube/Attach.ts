@@ -0,0 +1,145 @@
+import { abortable } from '../utils/Abort';
+import {
+  connectSocketChannel,
+  HttpServiceClient,
+  type InnertubeSupportServiceClient,
+  RpcServiceClient
+} from './Client';
+import { type InnertubeSupportServiceStatus } from './Service';
+
+export interface InnertubeSupportDaemonEndpoint {
+  // `http://<address>:<port>` or `unix:<socket path>`
+  url: string;
+  secret: string;
+}
+
+/**
+ * Support service run as a daemon (see `run.js --config`), to which the
+ * wrapper attaches instead of spawning its own. Runtime and sandbox level
+ * are not known to the wrapper.
+ */
+export type AttachedInnertubeSupportService = InnertubeSupportServiceStatus & {
+  stop: () => Promise<void>;
+  runtime: null;
+  sandboxLevel: null;
+  secret: string;
+  client: InnertubeSupportServiceClient;
+};
+
+/**
+ * The daemon could not be reached with the given URL and secret.
+ */
+export class ServiceAttachError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ServiceAttachError';
+  }
+}
+
+function createAttachedService(
+  endpoint: InnertubeSupportDaemonEndpoint
+): AttachedInnertubeSupportService {
+  const { secret } = endpoint;
+  let url: URL;
+  try {
+    url = new URL(endpoint.url);
+  } catch (error: unknown) {
+    throw new ServiceAttachError(`Invalid service URL "${endpoint.url}"`, {
+      cause: error
+    });
+  }
+  const common = {
+    status: 'started' as const,
+    runtime: null,
+    sandboxLevel: null,
+    secret,
+    // Daemon keeps running
+    stop: () => Promise.resolve()
+  };
+  switch (url.protocol) {
+    case 'http:': {
+      // Hostname keeps brackets of IPv6 addresses, as needed in URLs
+      const address = url.hostname;
+      const port = Number(url.port || 80);
+      return {
+        ...common,
+        transport: 'http',
+        server: { address, port },
+        client: new HttpServiceClient({ address, port, secret })
+      };
+    }
+    case 'unix:': {
+      const path = url.pathname;
+      return {
+        ...common,
+        transport: 'socket',
+        socket: { path },
+        client: new RpcServiceClient(() => connectSocketChannel(path, secret))
+      };
+    }
+    default:
+      throw new ServiceAttachError(
+        `Unsupported service URL "${endpoint.url}" (expected http: or unix:)`
+      );
+  }
+}
+
+/**
+ * Connection to a support service daemon. Exposes the same interface as
+ * `InnertubeSupportServiceSupervisor`, but never spawns or stops the
+ * service itself.
+ */
+export class InnertubeSupportDaemonConnection {
+  #endpoint: InnertubeSupportDaemonEndpoint;
+  #service: AttachedInnertubeSupportService | null;
+  #stopped: boolean;
+
+  constructor(endpoint: InnertubeSupportDaemonEndpoint) {
+    this.#endpoint = endpoint;
+    this.#service = null;
+    this.#stopped = false;
+  }
+
+  /**
+   * Checks that the daemon is reachable and accepts the secret.
+   */
+  async start(signal?: AbortSignal) {
+    const service = createAttachedService(this.#endpoint);
+    try {
+      await abortable(service.client.status(), signal);
+    } catch (error: unknown) {
+      service.client.close();
+      if (signal?.aborted) {
+        throw error;
+      }
+      throw new ServiceAttachError(
+        `Failed to attach to Innertube support service at ${this.#endpoint.url}`,
+        { cause: error }
+      );
+    }
+    this.#service = service;
+    return service;
+  }
+
+  getService() {
+    if (this.#stopped) {
+      throw Error('Innertube support service already stopped');
+    }
+    if (!this.#service) {
+      throw Error('Innertube support service not started');
+    }
+    return Promise.resolve(this.#service);
+  }
+
+  // Disconnects from the daemon
+  stop() {
+    this.#stopped = true;
+    this.#service?.client.close();
+    this.#service = null;
+    return Promise.resolve();
+  }
+
+  get service() {
+    return this.#service;
+  }
+}
@@ -0,0 +1,251 @@
+import net from 'net';
+import readline from 'readline';
+import { type Platform } from 'volumio-youtubei.js';
+import { type EvalFnResult, type PotFnResult } from './Server';
+import { type PoTokenData } from './PoToken';
+import { RPC_ERROR_CODES, RpcChannel, RpcError } from './Rpc';
+import {
+  type EvalRequestParams,
+  hashScript,
+  type InnertubeSupportServiceDiagnostics,
+  type InnertubeSupportServiceStats,
+  SERVICE_RPC_METHODS,
+  ScriptNotCachedError,
+  ServiceEvalError
+} from './Protocol';
+
+/**
+ * Wrapper-side interface to the support service, independent of transport.
+ */
+export interface InnertubeSupportServiceClient {
+  pot: (identifier: string) => Promise<PoTokenData>;
+  eval: (
+    ...args: Parameters<typeof Platform.shim.eval>
+  ) => Promise<EvalFnResult>;
+  stats: () => Promise<InnertubeSupportServiceStats>;
+  status: () => Promise<InnertubeSupportServiceDiagnostics>;
+  close: () => void;
+}
+
+abstract class BaseServiceClient implements InnertubeSupportServiceClient {
+  // Hashes of scripts the service is known to have cached
+  #uploadedScripts = new Set<string>();
+
+  abstract pot(identifier: string): Promise<PoTokenData>;
+  abstract stats(): Promise<InnertubeSupportServiceStats>;
+  abstract status(): Promise<InnertubeSupportServiceDiagnostics>;
+  abstract close(): void;
+
+  /**
+   * Throws `ScriptNotCachedError` if `params` omits `data` and the
+   * service does not have the script cached.
+   */
+  protected abstract sendEval(params: EvalRequestParams): Promise<EvalFnResult>;
+
+  /**
+   * Uploads the script on first use. Subsequent calls only send its hash,
+   * falling back to a full upload if the service has since dropped it.
+   */
+  async eval(
+    ...args: Parameters<typeof Platform.shim.eval>
+  ): Promise<EvalFnResult> {
+    const [data, env] = args;
+    const hash = hashScript(data);
+    if (this.#uploadedScripts.has(hash)) {
+      try {
+        return await this.sendEval({ hash, env });
+      } catch (error: unknown) {
+        if (!(error instanceof ScriptNotCachedError)) {
+          throw error;
+        }
+        this.#uploadedScripts.delete(hash);
+      }
+    }
+    const result = await this.sendEval({ hash, data, env });
+    this.#uploadedScripts.add(hash);
+    return result;
+  }
+}
+
+export class HttpServiceClient extends BaseServiceClient {
+  #baseURL: string;
+  #secret: string;
+
+  constructor(params: { address: string; port: number; secret: string }) {
+    super();
+    this.#baseURL = `http://${params.address}:${params.port}`;
+    this.#secret = params.secret;
+  }
+
+  async pot(identifier: string): Promise<PoTokenData> {
+    const url = new URL(`${this.#baseURL}/pot`);
+    url.searchParams.set('identifier', identifier);
+    const result = (await (
+      await fetch(url, { headers: this.#getAuthHeaders() })
+    ).json()) as PotFnResult;
+    if (result.ok) {
+      return {
+        poToken: result.poToken,
+        refreshThreshold: result.refreshThreshold,
+        ttl: result.ttl
+      };
+    }
+    throw Error(result.error);
+  }
+
+  protected async sendEval(params: EvalRequestParams): Promise<EvalFnResult> {
+    const res = await fetch(`${this.#baseURL}/eval`, {
+      method: 'POST',
+      headers: {
+        ...this.#getAuthHeaders(),
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(params)
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      if (body?.code === ScriptNotCachedError.CODE && params.hash) {
+        throw new ScriptNotCachedError(params.hash);
+      }
+      if (typeof body?.code === 'string' && body.error) {
+        throw new ServiceEvalError(body.code, body.error);
+      }
+      throw Error(`Eval request failed: ${res.status} ${res.statusText}`);
+    }
+    return await res.json();
+  }
+
+  async stats(): Promise<InnertubeSupportServiceStats> {
+    const res = await fetch(`${this.#baseURL}/stats`, {
+      headers: this.#getAuthHeaders()
+    });
+    if (!res.ok) {
+      throw Error(`Stats request failed: ${res.status} ${res.statusText}`);
+    }
+    return await res.json();
+  }
+
+  async status(): Promise<InnertubeSupportServiceDiagnostics> {
+    const res = await fetch(`${this.#baseURL}/status`, {
+      headers: this.#getAuthHeaders()
+    });
+    if (!res.ok) {
+      throw Error(`Status request failed: ${res.status} ${res.statusText}`);
+    }
+    return await res.json();
+  }
+
+  #getAuthHeaders() {
+    return {
+      Authorization: `Bearer ${this.#secret}`
+    };
+  }
+
+  close() {
+    // Nothing to release
+  }
+}
+
+export class RpcServiceClient extends BaseServiceClient {
+  #connect: () => Promise<RpcChannel>;
+  #channel: Promise<RpcChannel> | null;
+
+  /**
+   * @param connect Returns a ready-to-use channel. Called again for
+   * subsequent requests if the previous channel has been closed.
+   */
+  constructor(connect: () => Promise<RpcChannel>) {
+    super();
+    this.#connect = connect;
+    this.#channel = null;
+  }
+
+  async #getChannel() {
+    if (this.#channel) {
+      const channel = await this.#channel.catch(() => null);
+      if (channel && !channel.closed) {
+        return channel;
+      }
+    }
+    this.#channel = this.#connect();
+    return this.#channel;
+  }
+
+  async pot(identifier: string): Promise<PoTokenData> {
+    const channel = await this.#getChannel();
+    return channel.call<PoTokenData>(SERVICE_RPC_METHODS.POT, { identifier });
+  }
+
+  protected async sendEval(params: EvalRequestParams): Promise<EvalFnResult> {
+    const channel = await this.#getChannel();
+    try {
+      return await channel.call(SERVICE_RPC_METHODS.EVAL, params);
+    } catch (error: unknown) {
+      if (
+        error instanceof RpcError &&
+        error.code === RPC_ERROR_CODES.SCRIPT_NOT_CACHED &&
+        params.hash
+      ) {
+        throw new ScriptNotCachedError(params.hash);
+      }
+      if (
+        error instanceof RpcError &&
+        error.code === RPC_ERROR_CODES.EVAL_FAILED
+      ) {
+        throw new ServiceEvalError(error.data?.code, error.message);
+      }
+      throw error;
+    }
+  }
+
+  async stats(): Promise<InnertubeSupportServiceStats> {
+    const channel = await this.#getChannel();
+    return channel.call(SERVICE_RPC_METHODS.STATS);
+  }
+
+  async status(): Promise<InnertubeSupportServiceDiagnostics> {
+    const channel = await this.#getChannel();
+    return channel.call(SERVICE_RPC_METHODS.STATUS);
+  }
+
+  close() {
+    void this.#channel?.then((channel) => channel.close()).catch(() => null);
+    this.#channel = null;
+  }
+}
+
+/**
+ * Connects to the service's Unix domain socket and authenticates.
+ */
+export function connectSocketChannel(path: string, secret: string) {
+  return new Promise<RpcChannel>((resolve, reject) => {
+    const socket = net.createConnection(path);
+    const channel = new RpcChannel((message) => {
+      socket.write(`${JSON.stringify(message)}\n`);
+    });
+    const rl = readline.createInterface({
+      input: socket,
+      crlfDelay: Infinity
+    });
+    rl.on('line', (line) => channel.receiveLine(line));
+    // Readline re-emits socket errors, which are handled below
+    rl.on('error', () => null);
+    socket.once('error', (error) => {
+      reject(error);
+      socket.destroy();
+    });
+    socket.once('close', () => {
+      channel.close('Socket closed');
+      rl.close();
+    });
+    socket.once('connect', () => {
+      channel
+        .call(SERVICE_RPC_METHODS.AUTHENTICATE, { secret })
+        .then(() => resolve(channel))
+        .catch((error: unknown) => {
+          socket.destroy();
+          reject(error instanceof Error ? error : Error(String(error)));
+        });
+    });
+  });
+}
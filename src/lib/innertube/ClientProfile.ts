@@ -0,0 +1,100 @@
+export type ClientProfileName = 'YTMUSIC' | 'WEB' | 'MWEB' | 'TV' | 'IOS';
+
+/**
+ * What an Innertube client needs for player requests and the stream URLs
+ * they return.
+ */
+export interface ClientProfile {
+  client: ClientProfileName;
+  // Player request must carry the session-bound PO token
+  sessionPoToken: boolean;
+  // `pot` param of stream URLs must be the content-bound PO token
+  contentPoToken: boolean;
+  // Stream URLs must be deciphered (signature / n param)
+  decipher: boolean;
+}
+
+export const CLIENT_PROFILES: Record<ClientProfileName, ClientProfile> = {
+  YTMUSIC: {
+    client: 'YTMUSIC',
+    sessionPoToken: true,
+    contentPoToken: true,
+    decipher: true
+  },
+  WEB: {
+    client: 'WEB',
+    sessionPoToken: true,
+    contentPoToken: true,
+    decipher: true
+  },
+  MWEB: {
+    client: 'MWEB',
+    sessionPoToken: true,
+    contentPoToken: true,
+    decipher: true
+  },
+  // TV client is exempt from PO token enforcement
+  TV: {
+    client: 'TV',
+    sessionPoToken: false,
+    contentPoToken: false,
+    decipher: true
+  },
+  // IOS returns plain URLs, but only progressive / mp4 formats
+  IOS: {
+    client: 'IOS',
+    sessionPoToken: false,
+    contentPoToken: false,
+    decipher: false
+  }
+};
+
+// Order in which clients are tried when a video is unplayable with one
+export const DEFAULT_CLIENT_FALLBACK_ORDER: ClientProfileName[] = [
+  'YTMUSIC',
+  'WEB',
+  'TV',
+  'IOS'
+];
+
+export interface PlayabilityFailure {
+  client: ClientProfileName;
+  // E.g. 'LOGIN_REQUIRED', 'UNPLAYABLE'
+  status: string;
+  reason: string | null;
+}
+
+export class VideoUnplayableError extends Error {
+  videoId: string;
+  // One for each client tried, in order
+  failures: PlayabilityFailure[];
+
+  constructor(videoId: string, failures: PlayabilityFailure[]) {
+    super(
+      `Video "${videoId}" is not playable: ${failures
+        .map(
+          ({ client, status, reason }) =>
+            `${client} - ${status}${reason ? ` (${reason})` : ''}`
+        )
+        .join('; ')}`
+    );
+    this.name = 'VideoUnplayableError';
+    this.videoId = videoId;
+    this.failures = failures;
+  }
+}
+
+/**
+ * Options to pass to `Innertube.getBasicInfo()` for `profile`.
+ */
+export function getBasicInfoOptions(
+  profile: ClientProfile,
+  sessionPoToken?: string
+) {
+  return {
+    client: profile.client,
+    ...(profile.sessionPoToken && sessionPoToken ?
+      { po_token: sessionPoToken }
+    : {})
+  };
+}
@@ -0,0 +1,155 @@
+import fs from 'fs';
+import Innertube from 'volumio-youtubei.js';
+import { getErrorMessage } from '../utils/Logger';
+import { type EvalLimits } from './Protocol';
+import { InnertubeSupportService } from './Service';
+
+/**
+ * Config file (JSON) of the support service when run as a standalone daemon
+ * through `run.js --config <file>`.
+ */
+export interface InnertubeSupportDaemonConfig {
+  // Default: 'http'
+  transport?: 'http' | 'socket';
+  // For 'http'. Default: '127.0.0.1'.
+  address?: string;
+  // Required for 'http'
+  port?: number;
+  // Required for 'socket'
+  socketPath?: string;
+  // Clients must present this secret. Either it or `secretFile` is required.
+  secret?: string;
+  // File containing the secret, e.g. one readable only by the daemon's user
+  secretFile?: string;
+  decipherCacheSize?: number;
+  evalLimits?: Partial<EvalLimits>;
+}
+
+export class DaemonConfigError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'DaemonConfigError';
+  }
+}
+
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', 'localhost'];
+
+export function loadDaemonConfig(file: string) {
+  let config: InnertubeSupportDaemonConfig;
+  try {
+    config = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error: unknown) {
+    throw new DaemonConfigError(`Failed to read config file "${file}"`, {
+      cause: error
+    });
+  }
+  if (typeof config !== 'object' || !config) {
+    throw new DaemonConfigError(`Invalid config file "${file}"`);
+  }
+  const transport = config.transport || 'http';
+  if (transport !== 'http' && transport !== 'socket') {
+    throw new DaemonConfigError(`Unsupported transport "${String(transport)}"`);
+  }
+  if (transport === 'http' && !config.port) {
+    throw new DaemonConfigError('Transport "http" requires "port"');
+  }
+  if (transport === 'socket' && !config.socketPath) {
+    throw new DaemonConfigError('Transport "socket" requires "socketPath"');
+  }
+  let secret = config.secret;
+  if (!secret && config.secretFile) {
+    try {
+      secret = fs.readFileSync(config.secretFile, 'utf-8').trim();
+    } catch (error: unknown) {
+      throw new DaemonConfigError(
+        `Failed to read secret file "${config.secretFile}"`,
+        { cause: error }
+      );
+    }
+  }
+  if (!secret) {
+    throw new DaemonConfigError('Config must provide "secret" or "secretFile"');
+  }
+  return { ...config, transport, secret };
+}
+
+/**
+ * Runs the support service on its own, obtaining attestation challenges
+ * from an Innertube instance it creates, until SIGTERM / SIGINT.
+ */
+export async function runDaemon(config: ReturnType<typeof loadDaemonConfig>) {
+  const { transport, address, port, socketPath } = config;
+  if (
+    transport === 'http' &&
+    address &&
+    !LOOPBACK_ADDRESSES.includes(address)
+  ) {
+    console.warn(
+      `Listening on non-loopback address ${address}: requests and their secret are sent unencrypted`
+    );
+  }
+  const service = new InnertubeSupportService();
+  let innertube = await Innertube.create();
+  const getChallengeResponse = async () => {
+    try {
+      return await innertube.getAttestationChallenge('ENGAGEMENT_TYPE_UNBOUND');
+    } catch (error: unknown) {
+      // Session may have gone stale - retry with a new one
+      console.warn(
+        getErrorMessage(
+          'Failed to obtain attestation challenge - recreating Innertube session:',
+          error,
+          false
+        )
+      );
+      innertube = await Innertube.create();
+      return innertube.getAttestationChallenge('ENGAGEMENT_TYPE_UNBOUND');
+    }
+  };
+  const status = await service.start({
+    challengeResponse: await getChallengeResponse(),
+    secret: config.secret,
+    options: {
+      transport,
+      address,
+      port,
+      socketPath,
+      decipherCacheSize: config.decipherCacheSize,
+      evalLimits: config.evalLimits
+    },
+    getChallengeResponse,
+    onMinterRefreshFailed: (failure) => {
+      console.warn(
+        `Failed to refresh minter (attempt #${failure.attempt}): ${failure.error}`
+      );
+    }
+  });
+  if (status.status === 'started') {
+    console.log(
+      `Innertube support daemon listening on ${
+        status.transport === 'http' ?
+          `http://${status.server.address}:${status.server.port}`
+        : status.transport === 'socket' ? `unix:${status.socket.path}`
+        : 'stdio'
+      }`
+    );
+  }
+
+  let stopping = false;
+  const shutdown = (signal: string) => {
+    console.log(`Received ${signal}`);
+    if (stopping) {
+      return;
+    }
+    stopping = true;
+    void (async () => {
+      try {
+        await service.stop();
+      } finally {
+        process.exit(0);
+      }
+    })();
+  };
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+}
@@ -0,0 +1,64 @@
+import { type Platform } from 'volumio-youtubei.js';
+import { LRUCache } from '../utils/LRUCache';
+
+export const DEFAULT_DECIPHER_CACHE_SIZE = 500;
+
+export interface DecipherCacheStats {
+  hits: number;
+  misses: number;
+  size: number;
+}
+
+type Env = Parameters<typeof Platform.shim.eval>[1];
+
+/**
+ * Memo of decipher (eval) results. Entries are scoped by the hash of the
+ * evaluated script, since the same input deciphers differently across
+ * players.
+ */
+export class DecipherCache {
+  #cache: LRUCache<string, { value: any }>;
+  #hits: number;
+  #misses: number;
+
+  constructor(maxSize = DEFAULT_DECIPHER_CACHE_SIZE) {
+    this.#cache = new LRUCache(maxSize);
+    this.#hits = 0;
+    this.#misses = 0;
+  }
+
+  static #getKey(scope: string, env: Env) {
+    const entries = Object.entries(env).sort(([a], [b]) => a.localeCompare(b));
+    return `${scope}:${JSON.stringify(entries)}`;
+  }
+
+  /**
+   * Returns `undefined` on cache miss. Otherwise, the cached value
+   * wrapped in an object.
+   */
+  get(scope: string, env: Env) {
+    const entry = this.#cache.get(DecipherCache.#getKey(scope, env));
+    if (entry) {
+      this.#hits++;
+    } else {
+      this.#misses++;
+    }
+    return entry;
+  }
+
+  set(scope: string, env: Env, value: any) {
+    this.#cache.set(DecipherCache.#getKey(scope, env), { value });
+  }
+
+  clear() {
+    this.#cache.clear();
+  }
+
+  getStats(): DecipherCacheStats {
+    return {
+      hits: this.#hits,
+      misses: this.#misses,
+      size: this.#cache.size
+    };
+  }
+}
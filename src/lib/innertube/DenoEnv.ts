@@ -0,0 +1,72 @@
+import { DEFAULT_DENO_ALLOW_ENV, DENO_ALLOW_ENV_ARG } from './DenoPermissions';
+
+/**
+ * Imported for its side effect, before any dependency is loaded.
+ *
+ * Under Deno, accessing environment variables not granted through
+ * `--allow-env` throws, as does enumerating `process.env` unless access is
+ * unrestricted. Some dependencies do both on load (e.g. `debug`). So
+ * `process.env` is replaced with a view of it that treats denied variables
+ * as unset - which they are anyway, since the service is spawned with just
+ * `PATH` - keeps writes to them local, and lists the allowed variables
+ * (passed by the spawner through `DENO_ALLOW_ENV_ARG`) when enumeration is
+ * denied.
+ */
+function guardEnvAccess() {
+  if (!('Deno' in globalThis)) {
+    return;
+  }
+  const argIndex = process.argv.indexOf(DENO_ALLOW_ENV_ARG);
+  const allowed =
+    argIndex >= 0 ?
+      (process.argv[argIndex + 1] ?? '').split(',').filter((key) => key)
+    : DEFAULT_DENO_ALLOW_ENV;
+  const env = process.env;
+  // Denied variables set by the service itself
+  const local: NodeJS.ProcessEnv = {};
+  const read = (key: string | symbol) => {
+    try {
+      return env[key as string];
+    } catch {
+      return local[key as string];
+    }
+  };
+  const getDescriptor = (key: string | symbol) => {
+    const value = read(key);
+    return value !== undefined ?
+        { value, writable: true, enumerable: true, configurable: true }
+      : undefined;
+  };
+  process.env = new Proxy<NodeJS.ProcessEnv>(
+    {},
+    {
+      get: (_, key) => read(key),
+      set: (_, key, value: string) => {
+        try {
+          env[key as string] = value;
+        } catch {
+          local[key as string] = value;
+        }
+        return true;
+      },
+      has: (_, key) => read(key) !== undefined,
+      deleteProperty: (_, key) => {
+        try {
+          return delete env[key as string];
+        } catch {
+          return delete local[key as string];
+        }
+      },
+      ownKeys: () => {
+        try {
+          return Reflect.ownKeys(env);
+        } catch {
+          return allowed.filter((key) => getDescriptor(key));
+        }
+      },
+      getOwnPropertyDescriptor: (_, key) => getDescriptor(key)
+    }
+  );
+}
+
+guardEnvAccess();
@@ -0,0 +1,112 @@
+import { type IGetChallengeResponse } from 'volumio-youtubei.js';
+import { type InnertubeSupportServiceOptions } from './Protocol';
+
+/**
+ * Allow-lists passed to Deno when starting the support service. `true`
+ * grants unrestricted access.
+ */
+export interface DenoPermissions {
+  // Hosts (optionally with port) the service may connect to
+  allowNet?: string[] | true;
+  // Environment variables the service may read
+  allowEnv?: string[] | true;
+}
+
+// Hosts contacted by the minter (BotGuard interpreter and GenerateIT)
+export const DEFAULT_DENO_ALLOW_NET = ['www.youtube.com', 'www.google.com'];
+
+/**
+ * Environment variables the service may read by default. The service is
+ * spawned with an environment containing just `PATH` anyway.
+ */
+export const DEFAULT_DENO_ALLOW_ENV = ['PATH'];
+
+// Run script arg listing the allowed environment variables (see `DenoEnv`)
+export const DENO_ALLOW_ENV_ARG = '--deno-allow-env';
+
+export class DenoPermissionError extends Error {
+  permission: string;
+  target: string;
+
+  constructor(permission: string, target = '') {
+    super(
+      `Deno denied ${permission} access${target ? ` to "${target}"` : ''}. Grant it through the "denoPermissions" option if this is expected.`
+    );
+    this.name = 'DenoPermissionError';
+    this.permission = permission;
+    this.target = target;
+  }
+}
+
+function getInterpreterHost(challengeResponse: IGetChallengeResponse) {
+  const url =
+    challengeResponse.bg_challenge?.interpreter_url
+      .private_do_not_access_or_else_trusted_resource_url_wrapped_value;
+  if (!url) {
+    return null;
+  }
+  try {
+    return new URL(url, 'https://www.google.com').host;
+  } catch {
+    return null;
+  }
+}
+
+function toFlag(name: string, values: string[] | true) {
+  if (values === true) {
+    return [`--allow-${name}`];
+  }
+  return values.length > 0 ? [`--allow-${name}=${values.join(',')}`] : [];
+}
+
+export function getDenoPermissionArgs(params: {
+  permissions?: DenoPermissions;
+  options: InnertubeSupportServiceOptions;
+  challengeResponse: IGetChallengeResponse;
+}) {
+  const { permissions, options, challengeResponse } = params;
+  const socketPath =
+    options.transport === 'socket' ? options.socketPath : undefined;
+  let allowNet = permissions?.allowNet ?? DEFAULT_DENO_ALLOW_NET;
+  if (allowNet !== true) {
+    const interpreterHost = getInterpreterHost(challengeResponse);
+    allowNet = [
+      ...new Set([
+        ...allowNet,
+        ...(interpreterHost ? [interpreterHost] : []),
+        // Needed for listening on loopback interface
+        ...((options.transport || 'http') === 'http' ? ['127.0.0.1'] : []),
+        // Deno treats Unix sockets as network resources too
+        ...(socketPath ? [`unix:${socketPath}`] : [])
+      ])
+    ];
+  }
+  return [
+    socketPath ? `--allow-read=.,${socketPath}` : '--allow-read=.',
+    ...(socketPath ? [`--allow-write=${socketPath}`] : []),
+    ...toFlag('net', allowNet),
+    ...toFlag('env', permissions?.allowEnv ?? DEFAULT_DENO_ALLOW_ENV)
+  ];
+}
+
+/**
+ * Args for the run script, telling it which environment variables it may
+ * list when Deno denies enumerating them. None if access is unrestricted.
+ */
+export function getDenoScriptArgs(permissions?: DenoPermissions) {
+  const allowEnv = permissions?.allowEnv ?? DEFAULT_DENO_ALLOW_ENV;
+  return allowEnv === true ? [] : [DENO_ALLOW_ENV_ARG, allowEnv.join(',')];
+}
+
+/**
+ * Looks for Deno's permission denial message (e.g. 'Requires net access
+ * to "example.com:443", run again with the --allow-net flag') in `text`.
+ * The target is omitted when Deno requires unrestricted access.
+ */
+export function parseDenoPermissionDenial(text: string) {
+  const match = /Requires (\w+) access(?: to "([^"]+)")?/.exec(text);
+  if (!match) {
+    return null;
+  }
+  return new DenoPermissionError(match[1], match[2]);
+}
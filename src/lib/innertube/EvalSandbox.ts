@@ -0,0 +1,181 @@
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { type Platform } from 'volumio-youtubei.js';
+import {
+  type EvalLimits,
+  ScriptNotCachedError,
+  ServiceEvalError,
+  type ServiceEvalErrorCode
+} from './Protocol';
+
+export const DEFAULT_EVAL_LIMITS: EvalLimits = {
+  timeout: 5000,
+  maxMemoryMb: 128
+};
+
+export interface EvalWorkerRequest {
+  id: number;
+  hash: string;
+  data?: Parameters<typeof Platform.shim.eval>[0];
+  env: Parameters<typeof Platform.shim.eval>[1];
+}
+
+export type EvalWorkerResponse =
+  | {
+      id: number;
+      ok: true;
+      result: any;
+    }
+  | {
+      id: number;
+      ok: false;
+      notCached: true;
+    }
+  | {
+      id: number;
+      ok: false;
+      error: string;
+    };
+
+interface PendingEval {
+  hash: string;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+const workerScript = path.resolve(__dirname, 'EvalWorker.js');
+
+/**
+ * Evaluates scripts in a worker thread, so that code obtained from YouTube
+ * does not run in the service's main realm and a runaway script can be
+ * stopped without taking down the service.
+ *
+ * A script exceeding the time limit causes the worker to be terminated
+ * (along with any other evaluation queued on it). A new worker is created
+ * on next request. Note the memory cap is enforced by Node but may not
+ * be honoured by other runtimes.
+ */
+export class EvalSandbox {
+  #limits: EvalLimits;
+  #worker: Worker | null;
+  #pending: Map<number, PendingEval>;
+  #nextId: number;
+
+  constructor(limits?: Partial<EvalLimits>) {
+    this.#limits = {
+      ...DEFAULT_EVAL_LIMITS,
+      ...limits
+    };
+    this.#worker = null;
+    this.#pending = new Map();
+    this.#nextId = 1;
+  }
+
+  /**
+   * Throws `ScriptNotCachedError` if `data` is omitted and the worker does
+   * not have the script cached, or `ServiceEvalError` if evaluation fails.
+   */
+  eval(request: Omit<EvalWorkerRequest, 'id'>) {
+    const id = this.#nextId++;
+    const worker = this.#getWorker();
+    return new Promise<any>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        void this.#terminate(
+          'TIMEOUT',
+          `Evaluation timed out after ${this.#limits.timeout}ms`,
+          id
+        );
+      }, this.#limits.timeout);
+      this.#pending.set(id, { hash: request.hash, resolve, reject, timer });
+      try {
+        worker.postMessage({ ...request, id } satisfies EvalWorkerRequest);
+      } catch (error: unknown) {
+        // E.g. request not cloneable
+        this.#pending.delete(id);
+        clearTimeout(timer);
+        reject(
+          new ServiceEvalError(
+            'ABORTED',
+            `Failed to send script to eval worker: ${error instanceof Error ? error.message : String(error)}`
+          )
+        );
+      }
+    });
+  }
+
+  #getWorker() {
+    if (this.#worker) {
+      return this.#worker;
+    }
+    const worker = new Worker(workerScript, {
+      resourceLimits: {
+        maxOldGenerationSizeMb: this.#limits.maxMemoryMb
+      }
+    });
+    worker.on('message', (response: EvalWorkerResponse) => {
+      const pending = this.#pending.get(response.id);
+      if (!pending) {
+        return;
+      }
+      this.#pending.delete(response.id);
+      clearTimeout(pending.timer);
+      if (response.ok) {
+        pending.resolve(response.result);
+      } else if ('notCached' in response) {
+        pending.reject(new ScriptNotCachedError(pending.hash));
+      } else {
+        pending.reject(new ServiceEvalError('SCRIPT_ERROR', response.error));
+      }
+    });
+    worker.on('error', (error: Error & { code?: string }) => {
+      if (this.#worker !== worker) {
+        return;
+      }
+      if (error.code === 'ERR_WORKER_OUT_OF_MEMORY') {
+        void this.#terminate(
+          'OUT_OF_MEMORY',
+          `Evaluation exceeded memory limit of ${this.#limits.maxMemoryMb}MB`
+        );
+      } else {
+        void this.#terminate('ABORTED', `Eval worker error: ${error.message}`);
+      }
+    });
+    worker.on('exit', () => {
+      if (this.#worker === worker) {
+        void this.#terminate('ABORTED', 'Eval worker exited');
+      }
+    });
+    this.#worker = worker;
+    return worker;
+  }
+
+  /**
+   * Terminates the worker and rejects pending evaluations. The one
+   * identified by `causeId` (or all, if not specified) is rejected with
+   * `code`; others with 'ABORTED'.
+   */
+  #terminate(code: ServiceEvalErrorCode, message: string, causeId?: number) {
+    const worker = this.#worker;
+    this.#worker = null;
+    for (const [id, pending] of this.#pending) {
+      clearTimeout(pending.timer);
+      if (causeId === undefined || id === causeId) {
+        pending.reject(new ServiceEvalError(code, message));
+      } else {
+        pending.reject(
+          new ServiceEvalError(
+            'ABORTED',
+            `Evaluation aborted: eval worker terminated (${message})`
+          )
+        );
+      }
+    }
+    this.#pending.clear();
+    return worker?.terminate();
+  }
+
+  async dispose() {
+    await this.#terminate('ABORTED', 'Eval sandbox disposed');
+  }
+}
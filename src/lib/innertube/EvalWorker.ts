@@ -0,0 +1,65 @@
+/**
+ * Worker thread entry point for evaluating scripts in isolation from the
+ * support service's main realm. See `EvalSandbox`.
+ */
+import { parentPort } from 'worker_threads';
+import { type Platform } from 'volumio-youtubei.js';
+import { LRUCache } from '../utils/LRUCache';
+import { hashScript } from './Protocol';
+import { type EvalWorkerRequest, type EvalWorkerResponse } from './EvalSandbox';
+
+// Max number of compiled scripts (one per player version) kept in cache
+const MAX_CACHED_SCRIPTS = 5;
+
+const scripts = new LRUCache<string, Function>(MAX_CACHED_SCRIPTS);
+
+function compileScript(data: Parameters<typeof Platform.shim.eval>[0]) {
+  // eslint-disable-next-line  @typescript-eslint/no-implied-eval
+  return Function(data.output);
+}
+
+async function handleRequest(
+  request: EvalWorkerRequest
+): Promise<EvalWorkerResponse> {
+  const { id, hash, data } = request;
+  let script = scripts.get(hash);
+  try {
+    if (!script) {
+      if (!data) {
+        return { id, ok: false, notCached: true };
+      }
+      const actualHash = hashScript(data);
+      if (hash !== actualHash) {
+        return {
+          id,
+          ok: false,
+          error: `Script hash mismatch (given ${hash}, got ${actualHash})`
+        };
+      }
+      script = compileScript(data);
+      scripts.set(hash, script);
+    }
+    return { id, ok: true, result: await script() };
+  } catch (error: unknown) {
+    return {
+      id,
+      ok: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+parentPort?.on('message', (request: EvalWorkerRequest) => {
+  void handleRequest(request).then((response) => {
+    try {
+      parentPort?.postMessage(response);
+    } catch (error: unknown) {
+      // E.g. result not cloneable
+      parentPort?.postMessage({
+        id: request.id,
+        ok: false,
+        error: `Failed to return result: ${error instanceof Error ? error.message : String(error)}`
+      } satisfies EvalWorkerResponse);
+    }
+  });
+});
@@ -0,0 +1,96 @@
+import { type Player } from 'volumio-youtubei.js';
+import { type JsRuntime, type ServiceSandboxLevel } from './Runtime';
+import { getErrorMessage } from '../utils/Logger';
+
+export type HealthCheckResult<T extends object = {}> =
+  | ({ ok: true } & T)
+  | {
+      ok: false;
+      error: string;
+    };
+
+export interface HealthReport {
+  // `true` if all checks passed
+  ok: boolean;
+  // When the checks were run (ms since epoch)
+  checked: number;
+  runtime: JsRuntime | null;
+  sandboxLevel: ServiceSandboxLevel | null;
+  // `null` if the player could not be determined
+  playerId: string | null;
+  sessionIdentifierType: 'visitorData' | 'datasyncIdToken' | null;
+  // Age (ms) and TTL (seconds) of the minter in the support service
+  minter: HealthCheckResult<{ age: number; ttl: number }>;
+  // Deciphering of a sample stream URL with the current player
+  decipher: HealthCheckResult;
+  // Minting of a test PO token
+  poToken: HealthCheckResult<{ ttl: number }>;
+}
+
+export class HealthCheckError extends Error {
+  report: HealthReport;
+
+  constructor(report: HealthReport) {
+    const failed = (['minter', 'decipher', 'poToken'] as const)
+      .map((check) => {
+        const result = report[check];
+        return result.ok ? null : `${check}: ${result.error}`;
+      })
+      .filter((s) => s !== null);
+    super(`Health check failed (${failed.join('; ')})`);
+    this.name = 'HealthCheckError';
+    this.report = report;
+  }
+}
+
+// Identifier for minting test PO tokens. Any string will do.
+export const HEALTH_CHECK_PO_TOKEN_IDENTIFIER = 'health-check';
+
+// Arbitrary values, in the format of those found in stream URLs
+const SAMPLE_N = 'kB0Tq7Hh3ZmYwX1E';
+const SAMPLE_SIGNATURE =
+  'AOq0QJ8wRQIhAPdM5c0YTzkQmZ1lH3x2vBq7n8rWf4eGsJ6tUoK9yLiAiB1CxE0pN2aRgS5hV7jD3kF8mT4uY6zQ9wX2eL0oP1cI==';
+
+/**
+ * Deciphers a sample stream URL carrying a signature cipher and an n param,
+ * and checks that both have been transformed.
+ */
+export async function checkDecipher(
+  player: Player | undefined
+): Promise<HealthCheckResult> {
+  if (!player) {
+    return { ok: false, error: 'No player in Innertube session' };
+  }
+  const url = `https://rr1---sn-health-check.googlevideo.com/videoplayback?itag=251&n=${SAMPLE_N}`;
+  const signatureCipher = new URLSearchParams({
+    s: SAMPLE_SIGNATURE,
+    sp: 'sig',
+    url
+  }).toString();
+  try {
+    const deciphered = new URL(
+      await player.decipher(undefined, signatureCipher)
+    );
+    const n = deciphered.searchParams.get('n');
+    if (!n || n === SAMPLE_N) {
+      return { ok: false, error: 'n param not transformed' };
+    }
+    const sig = deciphered.searchParams.get('sig');
+    if (!sig || sig === SAMPLE_SIGNATURE) {
+      return { ok: false, error: 'Signature not deciphered' };
+    }
+    return { ok: true };
+  } catch (error: unknown) {
+    return { ok: false, error: getErrorMessage('', error, false) };
+  }
+}
+
+export async function runHealthCheck<T extends object>(
+  fn: () => Promise<T>
+): Promise<HealthCheckResult<T>> {
+  try {
+    return { ok: true, ...(await fn()) };
+  } catch (error: unknown) {
+    return { ok: false, error: getErrorMessage('', error, false) };
+  }
+}
@@ -0,0 +1,100 @@
+// Number of most recent eval latencies kept for computing percentiles
+const MAX_LATENCY_SAMPLES = 500;
+
+export interface LatencyPercentiles {
+  // Milliseconds
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+export interface ServiceErrorInfo {
+  source: 'pot' | 'eval' | 'minter';
+  message: string;
+  // ms since epoch
+  time: number;
+}
+
+export interface ServiceMetricsSnapshot {
+  poTokensMinted: number;
+  minterRefreshes: number;
+  minterRefreshFailures: number;
+  evals: {
+    count: number;
+    failed: number;
+    // Over the most recent evals; `null` if there have been none
+    latency: LatencyPercentiles | null;
+  };
+  lastError: ServiceErrorInfo | null;
+}
+
+// Nearest-rank percentile of sorted `values`
+function percentile(values: number[], p: number) {
+  const rank = Math.ceil((p / 100) * values.length);
+  return values[Math.max(rank - 1, 0)];
+}
+
+/**
+ * Counters and eval latencies collected by the support service.
+ */
+export class ServiceMetrics {
+  #poTokensMinted = 0;
+  #minterRefreshes = 0;
+  #minterRefreshFailures = 0;
+  #evalCount = 0;
+  #evalsFailed = 0;
+  #latencies: number[] = [];
+  #lastError: ServiceErrorInfo | null = null;
+
+  recordPoTokenMinted() {
+    this.#poTokensMinted++;
+  }
+
+  recordMinterRefresh() {
+    this.#minterRefreshes++;
+  }
+
+  recordEval(latency: number, ok: boolean) {
+    this.#evalCount++;
+    if (!ok) {
+      this.#evalsFailed++;
+    }
+    this.#latencies.push(latency);
+    if (this.#latencies.length > MAX_LATENCY_SAMPLES) {
+      this.#latencies.shift();
+    }
+  }
+
+  recordError(source: ServiceErrorInfo['source'], error: unknown) {
+    if (source === 'minter') {
+      this.#minterRefreshFailures++;
+    }
+    this.#lastError = {
+      source,
+      message: error instanceof Error ? error.message : String(error),
+      time: Date.now()
+    };
+  }
+
+  getSnapshot(): ServiceMetricsSnapshot {
+    const sorted = [...this.#latencies].sort((a, b) => a - b);
+    return {
+      poTokensMinted: this.#poTokensMinted,
+      minterRefreshes: this.#minterRefreshes,
+      minterRefreshFailures: this.#minterRefreshFailures,
+      evals: {
+        count: this.#evalCount,
+        failed: this.#evalsFailed,
+        latency:
+          sorted.length > 0 ?
+            {
+              p50: percentile(sorted, 50),
+              p90: percentile(sorted, 90),
+              p99: percentile(sorted, 99)
+            }
+          : null
+      },
+      lastError: this.#lastError
+    };
+  }
+}
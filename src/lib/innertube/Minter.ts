@@ -0,0 +1,166 @@
+import { type IGetChallengeResponse } from 'volumio-youtubei.js';
+import { createPoTokenMinter, type PoTokenMinterResult } from './PoToken';
+import { type MinterInfo, type MinterRefreshFailure } from './Protocol';
+
+export interface MinterRefreshRetryPolicy {
+  initialDelay: number;
+  maxDelay: number;
+}
+
+export const DEFAULT_MINTER_REFRESH_RETRY_POLICY: MinterRefreshRetryPolicy = {
+  initialDelay: 5000,
+  maxDelay: 300000
+};
+
+export interface PoTokenMinterManagerConfig {
+  // Challenge obtained at spawn time, used for the first minter
+  challengeResponse: IGetChallengeResponse;
+  // Provides fresh challenges for subsequent minters
+  getChallengeResponse?: () => Promise<IGetChallengeResponse>;
+  onRefreshFailed?: (failure: MinterRefreshFailure) => void;
+  // Called when a minter replaces a previous one
+  onRotated?: () => void;
+  retry?: Partial<MinterRefreshRetryPolicy>;
+}
+
+/**
+ * Holds the current PO token minter and refreshes it ahead of expiry.
+ * A minter is kept in use until it expires, even if refreshing it fails.
+ * Failed refreshes are retried with exponential backoff.
+ */
+export class PoTokenMinterManager {
+  #config: PoTokenMinterManagerConfig;
+  #retry: MinterRefreshRetryPolicy;
+  #current: PoTokenMinterResult | null;
+  #pending: Promise<PoTokenMinterResult> | null;
+  #initialChallengeUsed: boolean;
+  #refreshTimer: NodeJS.Timeout | null;
+  #disposed: boolean;
+
+  constructor(config: PoTokenMinterManagerConfig) {
+    this.#config = config;
+    this.#retry = {
+      ...DEFAULT_MINTER_REFRESH_RETRY_POLICY,
+      ...config.retry
+    };
+    this.#current = null;
+    this.#pending = null;
+    this.#initialChallengeUsed = false;
+    this.#refreshTimer = null;
+    this.#disposed = false;
+  }
+
+  async getMinter() {
+    if (this.#current && !PoTokenMinterManager.#isExpired(this.#current)) {
+      return this.#current;
+    }
+    return this.#createMinter();
+  }
+
+  getInfo(): MinterInfo | null {
+    if (!this.#current) {
+      return null;
+    }
+    const { created, ttl, refreshThreshold } = this.#current;
+    return { created, ttl, refreshThreshold };
+  }
+
+  static #isExpired(minter: PoTokenMinterResult) {
+    return Date.now() >= minter.created + minter.ttl * 1000;
+  }
+
+  // Coalesces concurrent requests
+  #createMinter() {
+    if (!this.#pending) {
+      this.#pending = this.#doCreateMinter().finally(() => {
+        this.#pending = null;
+      });
+    }
+    return this.#pending;
+  }
+
+  async #doCreateMinter() {
+    const challengeResponse = await this.#getChallengeResponse();
+    const minter = await createPoTokenMinter({ challengeResponse });
+    if (!this.#disposed) {
+      const rotated = this.#current !== null;
+      this.#current = minter;
+      this.#scheduleRefresh(minter);
+      if (rotated) {
+        this.#config.onRotated?.();
+      }
+    }
+    return minter;
+  }
+
+  #getChallengeResponse() {
+    const { challengeResponse, getChallengeResponse } = this.#config;
+    if (!this.#initialChallengeUsed || !getChallengeResponse) {
+      this.#initialChallengeUsed = true;
+      return Promise.resolve(challengeResponse);
+    }
+    return getChallengeResponse();
+  }
+
+  #scheduleRefresh(minter: PoTokenMinterResult) {
+    // Refresh minter earlier than what refreshThreshold suggests,
+    // so requests coming in will use the new minter.
+    let timeout = minter.ttl - minter.refreshThreshold - 100;
+    if (timeout <= 0) {
+      // Short-lived minter - avoid refreshing in a tight loop
+      timeout = minter.ttl / 2;
+    }
+    this.#setRefreshTimer(() => this.#refresh(1), timeout * 1000);
+  }
+
+  async #refresh(attempt: number) {
+    try {
+      await this.#createMinter();
+    } catch (error: unknown) {
+      if (this.#disposed) {
+        return;
+      }
+      const retryIn = Math.min(
+        this.#retry.initialDelay * 2 ** (attempt - 1),
+        this.#retry.maxDelay
+      );
+      this.#config.onRefreshFailed?.({
+        attempt,
+        error: error instanceof Error ? error.message : String(error),
+        retryIn,
+        minterExpiresIn:
+          this.#current ?
+            Math.max(
+              this.#current.created + this.#current.ttl * 1000 - Date.now(),
+              0
+            )
+          : null
+      });
+      this.#setRefreshTimer(() => this.#refresh(attempt + 1), retryIn);
+    }
+  }
+
+  #setRefreshTimer(fn: () => Promise<void>, delay: number) {
+    this.#clearRefreshTimer();
+    if (this.#disposed) {
+      return;
+    }
+    this.#refreshTimer = setTimeout(() => {
+      this.#refreshTimer = null;
+      void fn();
+    }, delay);
+  }
+
+  #clearRefreshTimer() {
+    if (this.#refreshTimer) {
+      clearTimeout(this.#refreshTimer);
+    }
+    this.#refreshTimer = null;
+  }
+
+  dispose() {
+    this.#disposed = true;
+    this.#clearRefreshTimer();
+    this.#current = null;
+  }
+}
@@ -19,20 +19,10 @@ export interface PoTokenMinterResult {
 }
 
 export async function createPoTokenMinter(params: {
-  challengeResponse: string;
+  challengeResponse: IGetChallengeResponse;
 }): Promise<PoTokenMinterResult> {
   const userAgent = USER_AGENT;
-
-  let challengeResponse: IGetChallengeResponse;
-  try {
-    challengeResponse = JSON.parse(params.challengeResponse);
-  } catch (error: unknown) {
-    const errMsg = error instanceof Error ? error : Error(String(error));
-    throw Error(
-      `Error parsing challenge response "${params.challengeResponse}": ${errMsg}`,
-      { cause: error }
-    );
-  }
+  const { challengeResponse } = params;
 
   /**
    * Largely taken from:
@@ -0,0 +1,106 @@
+import { LRUCache } from '../utils/LRUCache';
+import { type PoTokenData } from './PoToken';
+
+export const DEFAULT_PO_TOKEN_CACHE_SIZE = 100;
+
+export interface PoTokenCacheStats {
+  hits: number;
+  misses: number;
+  size: number;
+}
+
+interface PoTokenCacheEntry {
+  data: PoTokenData;
+  // When the token was obtained (ms)
+  obtained: number;
+}
+
+/**
+ * Cache of PO tokens keyed by identifier (e.g. video ID). A token is
+ * served from cache until it reaches its refresh threshold. Concurrent
+ * requests for the same identifier share a single mint.
+ */
+export class PoTokenCache {
+  #cache: LRUCache<string, PoTokenCacheEntry>;
+  #pending: Map<string, Promise<PoTokenData>>;
+  // Incremented on `clear()`, so tokens being minted at the time are
+  // not cached
+  #generation: number;
+  #hits: number;
+  #misses: number;
+
+  constructor(maxSize = DEFAULT_PO_TOKEN_CACHE_SIZE) {
+    this.#cache = new LRUCache(maxSize);
+    this.#pending = new Map();
+    this.#generation = 0;
+    this.#hits = 0;
+    this.#misses = 0;
+  }
+
+  async get(
+    identifier: string,
+    mint: (identifier: string) => Promise<PoTokenData>
+  ): Promise<PoTokenData> {
+    const cached = this.#getValid(identifier);
+    if (cached) {
+      this.#hits++;
+      return cached;
+    }
+    const pending = this.#pending.get(identifier);
+    if (pending) {
+      this.#hits++;
+      return pending;
+    }
+    this.#misses++;
+    const generation = this.#generation;
+    const promise = mint(identifier)
+      .then((data) => {
+        if (generation === this.#generation) {
+          this.#cache.set(identifier, { data, obtained: Date.now() });
+        }
+        return data;
+      })
+      .finally(() => {
+        if (this.#pending.get(identifier) === promise) {
+          this.#pending.delete(identifier);
+        }
+      });
+    this.#pending.set(identifier, promise);
+    return promise;
+  }
+
+  /**
+   * Returns the cached token with `ttl` adjusted for time elapsed since it
+   * was obtained, or `null` if there is none or it is due for refresh.
+   */
+  #getValid(identifier: string): PoTokenData | null {
+    const entry = this.#cache.get(identifier);
+    if (!entry) {
+      return null;
+    }
+    const { data, obtained } = entry;
+    const elapsed = (Date.now() - obtained) / 1000;
+    if (!data.ttl || elapsed >= data.ttl - data.refreshThreshold) {
+      this.#cache.delete(identifier);
+      return null;
+    }
+    return {
+      ...data,
+      ttl: Math.floor(data.ttl - elapsed)
+    };
+  }
+
+  clear() {
+    this.#generation++;
+    this.#cache.clear();
+    this.#pending.clear();
+  }
+
+  getStats(): PoTokenCacheStats {
+    return {
+      hits: this.#hits,
+      misses: this.#misses,
+      size: this.#cache.size
+    };
+  }
+}
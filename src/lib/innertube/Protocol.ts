@@ -0,0 +1,217 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { type IGetChallengeResponse, type Platform } from 'volumio-youtubei.js';
+import { type InnertubeSupportServiceStatus } from './Service';
+import { type RpcMessage } from './Rpc';
+import { type DecipherCacheStats } from './DecipherCache';
+import { type ServiceMetricsSnapshot } from './Metrics';
+import { LRUCache } from '../utils/LRUCache';
+
+/**
+ * Messages exchanged between the wrapper and the support service it spawns.
+ * The wrapper writes to the service's stdin; the service writes to stdout,
+ * where protocol messages are told apart from log output by a prefix.
+ */
+
+// Bump when messages change in an incompatible way
+export const PROTOCOL_VERSION = 1;
+
+const MESSAGE_PREFIX = '@@volumio-yt-support@@ ';
+
+/**
+ * How the wrapper talks to the service:
+ * - 'http': HTTP server on the loopback interface.
+ * - 'stdio': newline-delimited JSON-RPC over the service's stdin / stdout.
+ * - 'socket': newline-delimited JSON-RPC over a Unix domain socket.
+ */
+export type InnertubeSupportServiceTransport = 'http' | 'stdio' | 'socket';
+
+export interface InnertubeSupportServiceOptions {
+  transport?: InnertubeSupportServiceTransport;
+  // Required when `transport` is 'socket'
+  socketPath?: string;
+  // Where the 'http' server listens. Default: 127.0.0.1 on a random port.
+  address?: string;
+  port?: number;
+  // Max number of memoized decipher results
+  decipherCacheSize?: number;
+  // Limits applied when evaluating scripts
+  evalLimits?: Partial<EvalLimits>;
+}
+
+export interface EvalLimits {
+  // Max time (ms) a single evaluation may take
+  timeout: number;
+  // Heap size cap (MB) of the isolated context evaluating scripts
+  maxMemoryMb: number;
+}
+
+// Methods served by the service over RPC transports
+export const SERVICE_RPC_METHODS = {
+  // Must be the first call on a socket connection. Params: `{ secret }`.
+  AUTHENTICATE: 'authenticate',
+  // Params: `{ identifier }`. Result: `PoTokenData`.
+  POT: 'pot',
+  // Params: `EvalRequestParams`. Result: `EvalFnResult`.
+  EVAL: 'eval',
+  // Result: `InnertubeSupportServiceStats`.
+  STATS: 'stats',
+  // Result: `InnertubeSupportServiceDiagnostics`.
+  STATUS: 'status'
+} as const;
+
+// Methods served by the wrapper to the service over stdio
+export const PARENT_RPC_METHODS = {
+  // Result: fresh `IGetChallengeResponse`, for refreshing the minter.
+  GET_CHALLENGE: 'getChallenge',
+  // Params: `MinterRefreshFailure`.
+  MINTER_REFRESH_FAILED: 'minterRefreshFailed',
+  // Notifies that the minter has been replaced, so PO tokens minted
+  // previously should no longer be reused.
+  MINTER_ROTATED: 'minterRotated'
+} as const;
+
+export interface MinterRefreshFailure {
+  // Consecutive failed attempts, including this one
+  attempt: number;
+  error: string;
+  // Time (ms) until next attempt
+  retryIn: number;
+  // Time (ms) until current minter expires; `null` if there is none
+  minterExpiresIn: number | null;
+}
+
+export interface MinterInfo {
+  // When the minter was created (ms since epoch)
+  created: number;
+  // Seconds
+  ttl: number;
+  refreshThreshold: number;
+}
+
+export interface InnertubeSupportServiceStats {
+  decipherCache: DecipherCacheStats;
+  // `null` if no minter has been created yet
+  minter: MinterInfo | null;
+}
+
+export interface InnertubeSupportServiceDiagnostics extends ServiceMetricsSnapshot {
+  // Time (ms) since the service started
+  uptime: number;
+  // `expiresIn` is in ms; `null` if no minter has been created yet
+  minter: (MinterInfo & { expiresIn: number }) | null;
+  decipherCache: DecipherCacheStats;
+}
+
+export interface EvalRequestParams {
+  // Hash of the script (see `hashScript()`). Required if `data` is omitted.
+  hash?: string;
+  // The script. May be omitted if the service already has it cached, in
+  // which case a `ScriptNotCachedError` is returned on cache miss.
+  data?: Parameters<typeof Platform.shim.eval>[0];
+  env: Parameters<typeof Platform.shim.eval>[1];
+}
+
+export class ScriptNotCachedError extends Error {
+  static readonly CODE = 'SCRIPT_NOT_CACHED';
+
+  constructor(hash: string) {
+    super(`Script not cached: ${hash}`);
+    this.name = 'ScriptNotCachedError';
+  }
+}
+
+export type ServiceEvalErrorCode =
+  // Evaluation exceeded `EvalLimits.timeout`
+  | 'TIMEOUT'
+  // Evaluation exceeded `EvalLimits.maxMemoryMb`
+  | 'OUT_OF_MEMORY'
+  // Script threw an error
+  | 'SCRIPT_ERROR'
+  // Isolated context was terminated (e.g. because of another evaluation
+  // timing out) before evaluation completed
+  | 'ABORTED';
+
+/**
+ * Error returned by the service when a script fails to evaluate.
+ */
+export class ServiceEvalError extends Error {
+  code: ServiceEvalErrorCode;
+
+  constructor(code: ServiceEvalErrorCode, message: string) {
+    super(message);
+    this.name = 'ServiceEvalError';
+    this.code = code;
+  }
+}
+
+// Scripts are hashed on every eval, yet only change with the player
+const scriptHashes = new LRUCache<string, string>(8);
+
+export function hashScript(data: Parameters<typeof Platform.shim.eval>[0]) {
+  let hash = scriptHashes.get(data.output);
+  if (!hash) {
+    hash = createHash('sha256').update(data.output).digest('hex');
+    scriptHashes.set(data.output, hash);
+  }
+  return hash;
+}
+
+export interface BootstrapMessage {
+  type: 'bootstrap';
+  version: number;
+  challengeResponse: IGetChallengeResponse;
+  // Shared secret that must accompany every request to the service
+  secret: string;
+  options: InnertubeSupportServiceOptions;
+}
+
+export type HandshakeMessage = {
+  type: 'handshake';
+  version: number;
+} & (
+  | {
+      ok: true;
+      status: InnertubeSupportServiceStatus;
+    }
+  | {
+      ok: false;
+      error: string;
+    }
+);
+
+// JSON-RPC message exchanged over stdio
+export interface RpcEnvelopeMessage {
+  type: 'rpc';
+  payload: RpcMessage;
+}
+
+export type ProtocolMessage =
+  BootstrapMessage | HandshakeMessage | RpcEnvelopeMessage;
+
+export function encodeMessage(message: ProtocolMessage) {
+  return `${MESSAGE_PREFIX}${JSON.stringify(message)}`;
+}
+
+/**
+ * Returns `null` if `line` is not a protocol message.
+ * Throws if it is, but cannot be parsed.
+ */
+export function decodeMessage(line: string): ProtocolMessage | null {
+  if (!line.startsWith(MESSAGE_PREFIX)) {
+    return null;
+  }
+  const message = JSON.parse(line.substring(MESSAGE_PREFIX.length));
+  if (typeof message !== 'object' || typeof message?.type !== 'string') {
+    throw Error(`Invalid protocol message: ${line}`);
+  }
+  return message as ProtocolMessage;
+}
+
+export function verifySecret(given: string | undefined, expected: string) {
+  if (!given) {
+    return false;
+  }
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,225 @@
+/**
+ * Minimal JSON-RPC 2.0 over a message-oriented channel. Transport-agnostic:
+ * the owner feeds received messages to `receive()` and provides a `send`
+ * function for outgoing ones. Both ends can make and serve calls.
+ */
+
+export interface RpcRequest {
+  jsonrpc: '2.0';
+  id: number;
+  method: string;
+  params?: any;
+}
+
+export interface RpcSuccessResponse {
+  jsonrpc: '2.0';
+  id: number;
+  result: any;
+}
+
+export interface RpcErrorResponse {
+  jsonrpc: '2.0';
+  id: number | null;
+  error: {
+    code: number;
+    message: string;
+    data?: any;
+  };
+}
+
+export type RpcMessage = RpcRequest | RpcSuccessResponse | RpcErrorResponse;
+
+export type RpcHandler = (params: any) => any;
+
+export const RPC_ERROR_CODES = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INTERNAL_ERROR: -32603,
+  // Implementation-defined server errors
+  HANDLER_ERROR: -32000,
+  UNAUTHORIZED: -32001,
+  CHANNEL_CLOSED: -32002,
+  SCRIPT_NOT_CACHED: -32003,
+  EVAL_FAILED: -32004
+} as const;
+
+export class RpcError extends Error {
+  code: number;
+  data?: any;
+
+  constructor(code: number, message: string, data?: any) {
+    super(message);
+    this.name = 'RpcError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+interface PendingCall {
+  resolve: (result: any) => void;
+  reject: (error: RpcError) => void;
+}
+
+export class RpcChannel {
+  #send: (message: RpcMessage) => void;
+  #handlers: Map<string, RpcHandler>;
+  #pending: Map<number, PendingCall>;
+  #nextId: number;
+  #closed: boolean;
+
+  constructor(send: (message: RpcMessage) => void) {
+    this.#send = send;
+    this.#handlers = new Map();
+    this.#pending = new Map();
+    this.#nextId = 1;
+    this.#closed = false;
+  }
+
+  register(method: string, handler: RpcHandler) {
+    this.#handlers.set(method, handler);
+    return this;
+  }
+
+  call<T = any>(method: string, params?: any): Promise<T> {
+    if (this.#closed) {
+      return Promise.reject(
+        new RpcError(RPC_ERROR_CODES.CHANNEL_CLOSED, 'RPC channel closed')
+      );
+    }
+    const id = this.#nextId++;
+    return new Promise<T>((resolve, reject) => {
+      this.#pending.set(id, { resolve, reject });
+      try {
+        this.#send({ jsonrpc: '2.0', id, method, params });
+      } catch (error: unknown) {
+        this.#pending.delete(id);
+        reject(
+          new RpcError(
+            RPC_ERROR_CODES.INTERNAL_ERROR,
+            `Failed to send RPC request: ${error instanceof Error ? error.message : String(error)}`
+          )
+        );
+      }
+    });
+  }
+
+  receive(message: RpcMessage) {
+    if (this.#closed) {
+      return;
+    }
+    if ('method' in message) {
+      void this.#handleRequest(message);
+      return;
+    }
+    if (message.id === null) {
+      return;
+    }
+    const pending = this.#pending.get(message.id);
+    if (!pending) {
+      return;
+    }
+    this.#pending.delete(message.id);
+    if ('error' in message) {
+      pending.reject(
+        new RpcError(
+          message.error.code,
+          message.error.message,
+          message.error.data
+        )
+      );
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  /**
+   * Parses `line` as an RPC message and passes it to `receive()`.
+   * Unparseable lines are answered with a parse error.
+   */
+  receiveLine(line: string) {
+    let message: RpcMessage;
+    try {
+      message = JSON.parse(line);
+    } catch (_error: unknown) {
+      this.#respondError(null, RPC_ERROR_CODES.PARSE_ERROR, 'Parse error');
+      return;
+    }
+    if (
+      typeof message !== 'object' ||
+      message === null ||
+      message.jsonrpc !== '2.0'
+    ) {
+      this.#respondError(
+        null,
+        RPC_ERROR_CODES.INVALID_REQUEST,
+        'Invalid request'
+      );
+      return;
+    }
+    this.receive(message);
+  }
+
+  async #handleRequest(request: RpcRequest) {
+    const handler = this.#handlers.get(request.method);
+    if (!handler) {
+      this.#respondError(
+        request.id,
+        RPC_ERROR_CODES.METHOD_NOT_FOUND,
+        `Method not found: ${request.method}`
+      );
+      return;
+    }
+    try {
+      const result = await handler(request.params);
+      this.#respond({ jsonrpc: '2.0', id: request.id, result: result ?? null });
+    } catch (error: unknown) {
+      if (error instanceof RpcError) {
+        this.#respondError(request.id, error.code, error.message, error.data);
+      } else {
+        this.#respondError(
+          request.id,
+          RPC_ERROR_CODES.HANDLER_ERROR,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+  }
+
+  #respondError(id: number | null, code: number, message: string, data?: any) {
+    this.#respond({
+      jsonrpc: '2.0',
+      id,
+      error: { code, message, data }
+    });
+  }
+
+  #respond(message: RpcSuccessResponse | RpcErrorResponse) {
+    if (this.#closed) {
+      return;
+    }
+    try {
+      this.#send(message);
+    } catch (_error: unknown) {
+      // Other end has gone away - nothing to do
+    }
+  }
+
+  /**
+   * Rejects all in-flight calls. The channel cannot be used afterwards.
+   */
+  close(reason = 'RPC channel closed') {
+    if (this.#closed) {
+      return;
+    }
+    this.#closed = true;
+    for (const pending of this.#pending.values()) {
+      pending.reject(new RpcError(RPC_ERROR_CODES.CHANNEL_CLOSED, reason));
+    }
+    this.#pending.clear();
+  }
+
+  get closed() {
+    return this.#closed;
+  }
+}
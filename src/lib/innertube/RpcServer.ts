@@ -0,0 +1,212 @@
+import fs from 'fs';
+import net from 'net';
+import readline from 'readline';
+import { type InnertubeSupportServerConfig } from './Server';
+import { RPC_ERROR_CODES, RpcChannel, RpcError } from './Rpc';
+import {
+  type EvalRequestParams,
+  SERVICE_RPC_METHODS,
+  ScriptNotCachedError,
+  ServiceEvalError,
+  verifySecret
+} from './Protocol';
+
+/**
+ * Serves support service methods on `channel`. If `authenticate` is
+ * provided, calls are rejected until the peer has authenticated.
+ */
+export function registerSupportServiceMethods(
+  channel: RpcChannel,
+  config: Omit<InnertubeSupportServerConfig, 'secret'>,
+  authenticate?: (secret: string | undefined) => boolean
+) {
+  let authenticated = !authenticate;
+  const assertAuthenticated = () => {
+    if (!authenticated) {
+      throw new RpcError(RPC_ERROR_CODES.UNAUTHORIZED, 'Unauthorized');
+    }
+  };
+  if (authenticate) {
+    channel.register(SERVICE_RPC_METHODS.AUTHENTICATE, (params) => {
+      authenticated = authenticate(params?.secret);
+      assertAuthenticated();
+      return true;
+    });
+  }
+  channel.register(SERVICE_RPC_METHODS.POT, (params) => {
+    assertAuthenticated();
+    if (!params?.identifier) {
+      throw Error('Request is missing param "identifier"');
+    }
+    return config.potFn(String(params.identifier));
+  });
+  channel.register(
+    SERVICE_RPC_METHODS.EVAL,
+    async (params: EvalRequestParams | undefined) => {
+      assertAuthenticated();
+      if ((!params?.hash && !params?.data) || !params?.env) {
+        throw Error('Request is missing param "hash" / "data" or "env"');
+      }
+      try {
+        return await config.evalFn(params);
+      } catch (error: unknown) {
+        if (error instanceof ScriptNotCachedError) {
+          throw new RpcError(RPC_ERROR_CODES.SCRIPT_NOT_CACHED, error.message);
+        }
+        if (error instanceof ServiceEvalError) {
+          throw new RpcError(RPC_ERROR_CODES.EVAL_FAILED, error.message, {
+            code: error.code
+          });
+        }
+        throw error;
+      }
+    }
+  );
+  channel.register(SERVICE_RPC_METHODS.STATS, () => {
+    assertAuthenticated();
+    return config.statsFn();
+  });
+  channel.register(SERVICE_RPC_METHODS.STATUS, () => {
+    assertAuthenticated();
+    return config.statusFn();
+  });
+  return channel;
+}
+
+export interface InnertubeSupportSocketServerConfig extends InnertubeSupportServerConfig {
+  path: string;
+}
+
+/**
+ * Removes the socket file at `path` left behind by a previous instance.
+ * Throws if `path` is not a socket, or another server is listening on it.
+ */
+async function removeStaleSocket(path: string) {
+  let stats: fs.Stats;
+  try {
+    stats = fs.lstatSync(path);
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return;
+    }
+    throw error;
+  }
+  if (!stats.isSocket()) {
+    throw Error(`Cannot listen on "${path}": file exists and is not a socket`);
+  }
+  const inUse = await new Promise<boolean>((resolve) => {
+    const socket = net.createConnection(path);
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once('error', () => resolve(false));
+  });
+  if (inUse) {
+    throw Error(`Cannot listen on "${path}": address in use`);
+  }
+  fs.rmSync(path, { force: true });
+}
+
+/**
+ * Serves newline-delimited JSON-RPC over a Unix domain socket.
+ */
+export class InnertubeSupportSocketServer {
+  #config: InnertubeSupportSocketServerConfig;
+  #server: net.Server | null;
+  #connections: Set<net.Socket>;
+  #status: 'started' | 'stopped';
+  #startPromise: Promise<{ path: string }> | null;
+
+  constructor(config: InnertubeSupportSocketServerConfig) {
+    this.#config = config;
+    this.#server = null;
+    this.#connections = new Set();
+    this.#status = 'stopped';
+    this.#startPromise = null;
+  }
+
+  async start() {
+    if (!this.#startPromise) {
+      const { path } = this.#config;
+      this.#startPromise = removeStaleSocket(path).then(
+        () =>
+          new Promise<{ path: string }>((resolve, reject) => {
+            const server = net.createServer((socket) =>
+              this.#handleConnection(socket)
+            );
+            server.once('error', (err) => {
+              this.#server = null;
+              this.#startPromise = null;
+              this.#status = 'stopped';
+              reject(err);
+            });
+            server.listen(path, () => {
+              fs.chmodSync(path, 0o600);
+              this.#server = server;
+              this.#status = 'started';
+              resolve({ path });
+            });
+          })
+      );
+      this.#startPromise.catch(() => {
+        this.#startPromise = null;
+      });
+    }
+    return this.#startPromise;
+  }
+
+  #handleConnection(socket: net.Socket) {
+    this.#connections.add(socket);
+    const channel = new RpcChannel((message) => {
+      socket.write(`${JSON.stringify(message)}\n`);
+    });
+    registerSupportServiceMethods(channel, this.#config, (secret) => {
+      const ok = verifySecret(secret, this.#config.secret);
+      if (!ok) {
+        console.warn('Rejected unauthenticated socket connection');
+      }
+      return ok;
+    });
+    const rl = readline.createInterface({
+      input: socket,
+      crlfDelay: Infinity
+    });
+    rl.on('line', (line) => channel.receiveLine(line));
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => {
+      this.#connections.delete(socket);
+      channel.close();
+      rl.close();
+    });
+  }
+
+  stop() {
+    if (this.#status === 'stopped') {
+      return;
+    }
+    return new Promise<void>((resolve, reject) => {
+      if (this.#server) {
+        for (const socket of this.#connections) {
+          socket.destroy();
+        }
+        this.#server.close((error) => {
+          if (error) {
+            return reject(error);
+          }
+          this.#startPromise = null;
+          this.#server = null;
+          this.#status = 'stopped';
+          fs.rmSync(this.#config.path, { force: true });
+          resolve();
+        });
+      } else {
+        resolve();
+      }
+    });
+  }
+
+  get status() {
+    return this.#status;
+  }
+}
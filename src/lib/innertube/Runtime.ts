@@ -0,0 +1,415 @@
+import { execFile } from 'child_process';
+import path from 'path';
+import { type IGetChallengeResponse } from 'volumio-youtubei.js';
+import { type InnertubeSupportServiceOptions } from './Protocol';
+import {
+  type DenoPermissions,
+  getDenoPermissionArgs,
+  getDenoScriptArgs
+} from './DenoPermissions';
+
+export type JsRuntime = 'deno' | 'bun' | 'node';
+
+// 'auto': most sandboxed runtime available
+export type JsRuntimeOption = JsRuntime | 'auto';
+
+// Paths to runtime executables, overriding the defaults
+export type JsRuntimePaths = Partial<Record<JsRuntime, string>>;
+
+/**
+ * - 'strong': Deno with restricted permissions.
+ * - 'partial': Node with permission model enabled. Filesystem, child process
+ *   and native addon access is restricted, but network access is not.
+ * - 'none': Bun, or Node that does not support the permission model.
+ */
+export type ServiceSandboxLevel = 'strong' | 'partial' | 'none';
+
+/**
+ * Why a runtime could not be used:
+ * - 'not-found': executable does not exist (or is not in PATH), or for
+ *   `npx`, the package is not installed.
+ * - 'not-executable': executable exists but cannot be run.
+ * - 'failed': executable ran but did not report a version.
+ * - 'unsupported-version': version is older than the minimum supported.
+ */
+export type JsRuntimeRejectionReason =
+  'not-found' | 'not-executable' | 'failed' | 'unsupported-version';
+
+export type JsRuntimeStatus =
+  | {
+      installed: true;
+      version: string;
+      // Executable followed by args needed to invoke the runtime
+      command: string[];
+    }
+  | {
+      installed: false;
+      reason: JsRuntimeRejectionReason;
+      error: Error;
+      command: string[];
+    };
+
+export interface JsRuntimeLaunchParams {
+  runScript: string;
+  cwd: string;
+  options: InnertubeSupportServiceOptions;
+  challengeResponse: IGetChallengeResponse;
+  denoPermissions?: DenoPermissions;
+}
+
+export interface JsRuntimeLaunch {
+  command: string;
+  args: string[];
+  sandboxLevel: ServiceSandboxLevel;
+  // Appended to the runtime name when logging startup
+  note?: string;
+}
+
+interface JsRuntimeDefinition {
+  displayName: string;
+  // Used when no path is configured
+  defaultCommand: string[];
+  minVersion: [number, number];
+  getLaunch: (
+    params: JsRuntimeLaunchParams,
+    command: string[]
+  ) => Promise<Omit<JsRuntimeLaunch, 'command'>>;
+}
+
+// Order in which runtimes offering the same sandbox level are picked by 'auto'
+export const JS_RUNTIME_PREFERENCE: JsRuntime[] = ['deno', 'node', 'bun'];
+
+const SANDBOX_LEVEL_RANK: Record<ServiceSandboxLevel, number> = {
+  strong: 2,
+  partial: 1,
+  none: 0
+};
+
+// Runtime detection may involve `npx`, which can be slow to start
+const DETECT_TIMEOUT = 30000;
+
+function runCommand(command: string[], args: string[]) {
+  return new Promise<string>((resolve, reject) => {
+    execFile(
+      command[0],
+      [...command.slice(1), ...args],
+      { cwd: __dirname, encoding: 'utf-8', timeout: DETECT_TIMEOUT },
+      (error, stdout) => {
+        if (error) {
+          // `ExecFileException` is not recognized as an Error type
+          const err: Error & { code?: unknown } = error;
+          reject(err);
+        } else {
+          resolve(stdout);
+        }
+      }
+    );
+  });
+}
+
+function parseVersion(output: string) {
+  const match = /(\d+)\.(\d+)\.(\d+)/.exec(output);
+  return match ? [Number(match[1]), Number(match[2])] : null;
+}
+
+// Printed by `npx --no-install` when the package is not installed
+const NPX_MISSING_PACKAGE_PATTERN = /npx canceled due to missing packages/;
+
+function getRejectionReason(
+  error: Error & { code?: unknown }
+): JsRuntimeRejectionReason {
+  if (NPX_MISSING_PACKAGE_PATTERN.test(error.message)) {
+    return 'not-found';
+  }
+  switch (error.code) {
+    case 'ENOENT':
+      return 'not-found';
+    case 'EACCES':
+    case 'ENOEXEC':
+      return 'not-executable';
+    default:
+      return 'failed';
+  }
+}
+
+// Keyed by runtime and command, so a changed path triggers fresh detection.
+// Only successful detections are kept.
+const runtimeStatuses = new Map<string, Promise<JsRuntimeStatus>>();
+
+export function getJsRuntimeCommand(
+  runtime: JsRuntime,
+  paths?: JsRuntimePaths
+) {
+  const customPath = paths?.[runtime];
+  return customPath ? [customPath] : JS_RUNTIMES[runtime].defaultCommand;
+}
+
+/**
+ * Checks whether `runtime` can be run and is of a supported version.
+ * Successful results are cached per executable. Failures are not, so that
+ * a runtime installed or upgraded later on is picked up.
+ */
+export function detectJsRuntime(
+  runtime: JsRuntime,
+  paths?: JsRuntimePaths
+): Promise<JsRuntimeStatus> {
+  const command = getJsRuntimeCommand(runtime, paths);
+  const key = `${runtime}:${command.join(' ')}`;
+  let status = runtimeStatuses.get(key);
+  if (!status) {
+    const detection = doDetectJsRuntime(runtime, command).then((result) => {
+      if (!result.installed && runtimeStatuses.get(key) === detection) {
+        runtimeStatuses.delete(key);
+      }
+      return result;
+    });
+    status = detection;
+    runtimeStatuses.set(key, status);
+  }
+  return status;
+}
+
+async function doDetectJsRuntime(
+  runtime: JsRuntime,
+  command: string[]
+): Promise<JsRuntimeStatus> {
+  const { displayName, minVersion } = JS_RUNTIMES[runtime];
+  const commandStr = command.join(' ');
+  let output: string;
+  try {
+    output = await runCommand(command, ['--version']);
+  } catch (error: unknown) {
+    const err = error instanceof Error ? error : Error(String(error));
+    const reason = getRejectionReason(err);
+    const message =
+      reason === 'not-found' ? `"${commandStr}" not found`
+      : reason === 'not-executable' ? `"${commandStr}" is not executable`
+      : `"${commandStr} --version" failed: ${err.message}`;
+    return {
+      installed: false,
+      reason,
+      error: Error(`${displayName} unavailable: ${message}`, { cause: err }),
+      command
+    };
+  }
+  const version = output.trim().split(/\r?\n/)[0];
+  const parsed = parseVersion(version);
+  if (!parsed) {
+    return {
+      installed: false,
+      reason: 'failed',
+      error: Error(
+        `${displayName} unavailable: could not determine version from output of "${commandStr} --version": ${version}`
+      ),
+      command
+    };
+  }
+  const [major, minor] = parsed;
+  if (
+    major < minVersion[0] ||
+    (major === minVersion[0] && minor < minVersion[1])
+  ) {
+    return {
+      installed: false,
+      reason: 'unsupported-version',
+      error: Error(
+        `${displayName} unavailable: version ${version} of "${commandStr}" is not supported (requires ${minVersion.join('.')} or later)`
+      ),
+      command
+    };
+  }
+  return {
+    installed: true,
+    version,
+    command
+  };
+}
+
+export function detectJsRuntimes(paths?: JsRuntimePaths) {
+  return Promise.all(
+    JS_RUNTIME_PREFERENCE.map(async (runtime) => ({
+      runtime,
+      status: await detectJsRuntime(runtime, paths)
+    }))
+  );
+}
+
+/**
+ * Node 20+ ships a permission model, enabled with `--experimental-permission`
+ * (Node 20 / early 22) or `--permission` (later versions).
+ */
+const NODE_PERMISSION_FLAGS = ['--permission', '--experimental-permission'];
+
+const nodePermissionFlags = new Map<string, Promise<string | null>>();
+
+/**
+ * Returns the flag that enables the permission model in the Node invoked
+ * by `command`, or `null` if it does not support one.
+ */
+function getNodePermissionFlag(command: string[]) {
+  const key = command.join(' ');
+  let result = nodePermissionFlags.get(key);
+  if (!result) {
+    result = (async () => {
+      for (const flag of NODE_PERMISSION_FLAGS) {
+        try {
+          await runCommand(command, [flag, '-e', '0']);
+          return flag;
+        } catch {
+          // Flag not supported
+        }
+      }
+      return null;
+    })();
+    nodePermissionFlags.set(key, result);
+  }
+  return result;
+}
+
+/**
+ * Dependencies may be hoisted to a `node_modules` directory above ours
+ * (e.g. when installed as a dependency of a Volumio plugin), so read access
+ * has to cover the directory containing the outermost one.
+ */
+function getNodeReadRoot(cwd: string) {
+  const segments = cwd.split(path.sep);
+  const index = segments.indexOf('node_modules');
+  return index > 0 ? segments.slice(0, index).join(path.sep) || path.sep : cwd;
+}
+
+function getSocketPath(options: InnertubeSupportServiceOptions) {
+  return options.transport === 'socket' ? options.socketPath : undefined;
+}
+
+export const JS_RUNTIMES: Record<JsRuntime, JsRuntimeDefinition> = {
+  deno: {
+    displayName: 'Deno',
+    // Finds Deno installed as npm package as well as in PATH
+    defaultCommand: ['npx', '--no-install', 'deno'],
+    // For CommonJS support
+    minVersion: [2, 0],
+    getLaunch: ({ runScript, options, challengeResponse, denoPermissions }) =>
+      Promise.resolve({
+        args: [
+          'run',
+          '--quiet',
+          '--no-prompt',
+          ...getDenoPermissionArgs({
+            permissions: denoPermissions,
+            options,
+            challengeResponse
+          }),
+          runScript,
+          ...getDenoScriptArgs(denoPermissions)
+        ],
+        sandboxLevel: 'strong'
+      })
+  },
+  node: {
+    displayName: 'Node',
+    defaultCommand: ['node'],
+    minVersion: [20, 0],
+    getLaunch: async ({ runScript, cwd, options }, command) => {
+      const permissionFlag = await getNodePermissionFlag(command);
+      if (!permissionFlag) {
+        return {
+          args: [runScript],
+          sandboxLevel: 'none',
+          note: 'permission model not supported - service will not be sandboxed'
+        };
+      }
+      const socketPath = getSocketPath(options);
+      return {
+        args: [
+          permissionFlag,
+          `--allow-fs-read=${getNodeReadRoot(cwd)}`,
+          // Read access lets the service check for a stale socket
+          ...(socketPath ?
+            [`--allow-fs-read=${socketPath}`, `--allow-fs-write=${socketPath}`]
+          : []),
+          // Required by EvalSandbox
+          '--allow-worker',
+          '--no-warnings=ExperimentalWarning',
+          runScript
+        ],
+        sandboxLevel: 'partial',
+        note: permissionFlag
+      };
+    }
+  },
+  bun: {
+    displayName: 'Bun',
+    defaultCommand: ['bun'],
+    minVersion: [1, 1],
+    getLaunch: ({ runScript }) =>
+      Promise.resolve({
+        args: ['run', runScript],
+        sandboxLevel: 'none',
+        note: 'no sandboxing available'
+      })
+  }
+};
+
+export interface SelectedJsRuntime {
+  runtime: JsRuntime;
+  version: string;
+  launch: JsRuntimeLaunch;
+}
+
+/**
+ * Resolves `jsRuntime` to an installed runtime and how to launch the
+ * service with it. Throws if the requested runtime (or, for 'auto', any
+ * runtime) is unavailable.
+ *
+ * @param onUnavailable Called for each runtime found to be unavailable,
+ * with an error explaining why.
+ */
+export async function selectJsRuntime(
+  jsRuntime: JsRuntimeOption,
+  paths: JsRuntimePaths | undefined,
+  params: JsRuntimeLaunchParams,
+  onUnavailable?: (runtime: JsRuntime, error: Error) => void
+): Promise<SelectedJsRuntime> {
+  const candidates = jsRuntime === 'auto' ? JS_RUNTIME_PREFERENCE : [jsRuntime];
+  let selected: SelectedJsRuntime | null = null;
+  const errors: Error[] = [];
+  for (const runtime of candidates) {
+    const status = await detectJsRuntime(runtime, paths);
+    if (!status.installed) {
+      errors.push(status.error);
+      onUnavailable?.(runtime, status.error);
+      continue;
+    }
+    const [executable, ...executableArgs] = status.command;
+    const { args, ...launch } = await JS_RUNTIMES[runtime].getLaunch(
+      params,
+      status.command
+    );
+    if (
+      !selected ||
+      SANDBOX_LEVEL_RANK[launch.sandboxLevel] >
+        SANDBOX_LEVEL_RANK[selected.launch.sandboxLevel]
+    ) {
+      selected = {
+        runtime,
+        version: status.version,
+        launch: {
+          ...launch,
+          command: executable,
+          args: [...executableArgs, ...args]
+        }
+      };
+    }
+    if (selected.launch.sandboxLevel === 'strong') {
+      break;
+    }
+  }
+  if (!selected) {
+    throw jsRuntime === 'auto' ?
+        Error(
+          `No JS runtime available (${errors.map((e) => e.message).join('; ')})`
+        )
+      : errors[0];
+  }
+  return selected;
+}
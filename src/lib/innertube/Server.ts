@@ -3,6 +3,14 @@ import { type Server } from 'http';
 import { type AddressInfo } from 'net';
 import { type Platform } from 'volumio-youtubei.js';
 import { type PoTokenData } from './PoToken';
+import {
+  type EvalRequestParams,
+  type InnertubeSupportServiceDiagnostics,
+  type InnertubeSupportServiceStats,
+  ScriptNotCachedError,
+  ServiceEvalError,
+  verifySecret
+} from './Protocol';
 
 export type PotFnResult =
   | ({
@@ -16,8 +24,16 @@ export type PotFnResult =
 export type EvalFnResult = ReturnType<typeof Platform.shim.eval>;
 
 export interface InnertubeSupportServerConfig {
+  // Requests must carry this in an `Authorization: Bearer <secret>` header
+  secret: string;
   potFn: (identifier: string) => Promise<PoTokenData>;
-  evalFn: typeof Platform.shim.eval;
+  evalFn: (params: EvalRequestParams) => Promise<Awaited<EvalFnResult>>;
+  statsFn: () => InnertubeSupportServiceStats;
+  statusFn: () => InnertubeSupportServiceDiagnostics;
+  // Default: '127.0.0.1'
+  address?: string;
+  // Default: random free port
+  port?: number;
 }
 
 export class InnertubeSupportServer {
@@ -37,8 +53,8 @@ export class InnertubeSupportServer {
     if (!this.#startPromise) {
       this.#startPromise = new Promise((resolve, reject) => {
         const app = express();
-        app.use(express.json({ limit: '50mb' }));
-        const server = app.listen(0, '127.0.0.1', (err) => {
+        const { address = '127.0.0.1', port = 0 } = this.#config;
+        const server = app.listen(port, address, (err) => {
           if (err) {
             this.#server = null;
             this.#startPromise = null;
@@ -76,7 +92,34 @@ export class InnertubeSupportServer {
     });
   }
 
+  #isAuthorized(req: express.Request) {
+    const header = req.get('Authorization');
+    if (!header?.startsWith('Bearer ')) {
+      return false;
+    }
+    return verifySecret(
+      header.substring('Bearer '.length),
+      this.#config.secret
+    );
+  }
+
   #setRoutes(app: express.Express) {
+    app.use((req, res, next) => {
+      if (this.#isAuthorized(req)) {
+        return next();
+      }
+      console.warn(
+        `Rejected unauthenticated request: ${req.method} ${req.path} from ${req.ip}`
+      );
+      res.status(401).json({
+        ok: false,
+        error: 'Unauthorized'
+      });
+    });
+
+    // Only parse bodies of authenticated requests
+    app.use(express.json({ limit: '50mb' }));
+
     app.get('/pot', async (req, res) => {
       const identifier = req.query.identifier;
       if (!identifier) {
@@ -99,15 +142,39 @@ export class InnertubeSupportServer {
       }
     });
 
+    app.get('/stats', (_req, res) => {
+      res.status(200).json(this.#config.statsFn());
+    });
+
+    app.get('/status', (_req, res) => {
+      res.status(200).json(this.#config.statusFn());
+    });
+
     app.post('/eval', async (req, res) => {
-      const { data, env } = req.body;
-      if (!data || !env) {
+      const { hash, data, env } = req.body as EvalRequestParams;
+      if ((!hash && !data) || !env) {
         return res.status(500).json({
-          error: 'Request body is missing "data" or "env"'
+          error: 'Request body is missing "hash" / "data" or "env"'
         });
       }
-      const result = await this.#config.evalFn(data, env);
-      res.status(200).json(result);
+      try {
+        const result = await this.#config.evalFn({ hash, data, env });
+        res.status(200).json(result);
+      } catch (error: unknown) {
+        if (error instanceof ScriptNotCachedError) {
+          return res.status(409).json({
+            error: error.message,
+            code: ScriptNotCachedError.CODE
+          });
+        }
+        if (error instanceof ServiceEvalError) {
+          return res.status(500).json({
+            error: error.message,
+            code: error.code
+          });
+        }
+        throw error;
+      }
     });
   }
 
@@ -1,6 +1,26 @@
-import { InnertubeSupportServer } from './Server';
-import { createPoTokenMinter, type PoTokenMinterResult } from './PoToken';
-import { type Platform } from 'volumio-youtubei.js';
+import {
+  type InnertubeSupportServer,
+  type InnertubeSupportServerConfig
+} from './Server';
+import { PoTokenMinterManager } from './Minter';
+import { type IGetChallengeResponse } from 'volumio-youtubei.js';
+import {
+  type EvalRequestParams,
+  hashScript,
+  type InnertubeSupportServiceDiagnostics,
+  type InnertubeSupportServiceOptions,
+  type InnertubeSupportServiceStats,
+  type MinterRefreshFailure,
+  ScriptNotCachedError
+} from './Protocol';
+import { DecipherCache } from './DecipherCache';
+import { ServiceMetrics } from './Metrics';
+import { EvalSandbox } from './EvalSandbox';
+import { type RpcChannel } from './Rpc';
+import {
+  type InnertubeSupportSocketServer,
+  registerSupportServiceMethods
+} from './RpcServer';
 
 export type InnertubeSupportServiceStatus =
   | {
@@ -8,108 +28,133 @@ export type InnertubeSupportServiceStatus =
     }
   | {
       status: 'started';
+      transport: 'http';
       server: {
         address: string;
         port: number;
       };
+    }
+  | {
+      status: 'started';
+      transport: 'socket';
+      socket: {
+        path: string;
+      };
+    }
+  | {
+      status: 'started';
+      transport: 'stdio';
     };
 
-function evalFnImpl(...args: Parameters<typeof Platform.shim.eval>) {
-  const [data, env] = args;
-  const properties = [];
-
-  if (env.n) {
-    properties.push(`n: exportedVars.nFunction("${env.n}")`);
-  }
-
-  if (env.sig) {
-    properties.push(`sig: exportedVars.sigFunction("${env.sig}")`);
-  }
-
-  // eslint-disable-next-line  @typescript-eslint/no-implied-eval
-  return Function(data.output)();
-}
-
 export class InnertubeSupportService {
   #status: InnertubeSupportServiceStatus;
-  #server: InnertubeSupportServer | null;
+  #server: InnertubeSupportServer | InnertubeSupportSocketServer | null;
   #startPromise: Promise<InnertubeSupportServiceStatus> | null;
-  #minterPromise: Promise<PoTokenMinterResult> | null;
-  #refreshMinterTimer: NodeJS.Timeout | null;
+  #minterManager: PoTokenMinterManager | null;
+  #sandbox: EvalSandbox;
+  #decipherCache: DecipherCache;
+  #metrics: ServiceMetrics;
+  #started: number | null;
 
   constructor() {
+    this.#sandbox = new EvalSandbox();
+    this.#decipherCache = new DecipherCache();
     this.#server = null;
     this.#startPromise = null;
-    this.#minterPromise = null;
-    this.#refreshMinterTimer = null;
+    this.#minterManager = null;
+    this.#metrics = new ServiceMetrics();
+    this.#started = null;
     this.#status = {
       status: 'stopped'
     };
   }
 
-  async #getMinter(params: { challengeResponse: string }) {
-    if (!this.#minterPromise) {
-      this.#minterPromise = this.#createMinter(params);
+  /**
+   * Scripts are evaluated in an isolated sandbox, which compiles them once
+   * and caches them by hash, so callers only need to send the full script
+   * on cache miss. Results are memoized per script.
+   */
+  async #eval(params: EvalRequestParams) {
+    const { data, env } = params;
+    const hash = params.hash || (data ? hashScript(data) : null);
+    if (!hash) {
+      throw Error('Eval request is missing "hash" or "data"');
+    }
+    const memoized = this.#decipherCache.get(hash, env);
+    if (memoized) {
+      return memoized.value;
+    }
+    const start = Date.now();
+    let result;
+    try {
+      result = await this.#sandbox.eval({ hash, data, env });
+    } catch (error: unknown) {
+      // Not a failure - caller is expected to retry with `data`
+      if (!(error instanceof ScriptNotCachedError)) {
+        this.#metrics.recordEval(Date.now() - start, false);
+        this.#metrics.recordError('eval', error);
+      }
+      throw error;
     }
-    return this.#minterPromise;
+    this.#metrics.recordEval(Date.now() - start, true);
+    this.#decipherCache.set(hash, env, result);
+    return result;
   }
 
-  async #createMinter(params: { challengeResponse: string }) {
-    this.#clearRefreshMinterTimer();
-    const minterResult = await createPoTokenMinter(params);
-    const { ttl, refreshThreshold } = minterResult;
-
-    // Refresh minter earlier than what refreshThreshold suggests,
-    // so requests coming in will use the new minter.
-    const timeout = ttl - refreshThreshold - 100;
-    this.#refreshMinterTimer = setTimeout(() => {
-      this.#minterPromise = this.#createMinter(params);
-    }, timeout * 1000);
-
-    return minterResult;
+  getStats(): InnertubeSupportServiceStats {
+    return {
+      decipherCache: this.#decipherCache.getStats(),
+      minter: this.#minterManager?.getInfo() ?? null
+    };
   }
 
-  #clearRefreshMinterTimer() {
-    if (this.#refreshMinterTimer) {
-      clearTimeout(this.#refreshMinterTimer);
-    }
-    this.#refreshMinterTimer = null;
+  getDiagnostics(): InnertubeSupportServiceDiagnostics {
+    const minter = this.#minterManager?.getInfo() ?? null;
+    return {
+      uptime: this.#started ? Date.now() - this.#started : 0,
+      minter:
+        minter ?
+          {
+            ...minter,
+            expiresIn: Math.max(
+              minter.created + minter.ttl * 1000 - Date.now(),
+              0
+            )
+          }
+        : null,
+      decipherCache: this.#decipherCache.getStats(),
+      ...this.#metrics.getSnapshot()
+    };
   }
 
-  async start(params: { challengeResponse: string }) {
+  async start(params: {
+    challengeResponse: IGetChallengeResponse;
+    secret: string;
+    options?: InnertubeSupportServiceOptions;
+    // Channel over the service's stdio. Required for 'stdio' transport.
+    stdioChannel?: RpcChannel;
+    // Obtains fresh challenges from the parent for refreshing the minter
+    getChallengeResponse?: () => Promise<IGetChallengeResponse>;
+    onMinterRefreshFailed?: (failure: MinterRefreshFailure) => void;
+    onMinterRotated?: () => void;
+  }) {
     if (this.#startPromise) {
       return this.#startPromise;
     }
+    if (params.options?.decipherCacheSize) {
+      this.#decipherCache = new DecipherCache(params.options.decipherCacheSize);
+    }
+    if (params.options?.evalLimits) {
+      this.#sandbox = new EvalSandbox(params.options.evalLimits);
+    }
     this.#startPromise = new Promise<InnertubeSupportServiceStatus>(
       (resolve, reject) => {
         void (async () => {
           try {
-            this.#server = new InnertubeSupportServer({
-              potFn: async (identifier) => {
-                const { minter, ttl, refreshThreshold, created } =
-                  await this.#getMinter({
-                    challengeResponse: params.challengeResponse
-                  });
-                const poToken = await minter.mintAsWebsafeString(identifier);
-                const adjustedTTL = Math.floor(
-                  (ttl * 1000 + created - Date.now()) / 1000
-                );
-                return {
-                  poToken,
-                  ttl: adjustedTTL,
-                  refreshThreshold
-                };
-              },
-              evalFn: (data, env) => evalFnImpl(data, env)
-            });
-            const status = await this.#server.start();
-            resolve({
-              status: 'started',
-              server: {
-                address: status.address,
-                port: status.port
-              }
-            });
+            const status = await this.#startTransport(params);
+            this.#status = status;
+            this.#started = Date.now();
+            resolve(status);
           } catch (err) {
             this.#startPromise = null;
             this.#server = null;
@@ -124,17 +169,112 @@ export class InnertubeSupportService {
     return this.#startPromise;
   }
 
+  async #startTransport(
+    params: Parameters<InnertubeSupportService['start']>[0]
+  ): Promise<InnertubeSupportServiceStatus> {
+    const minterManager = (this.#minterManager = new PoTokenMinterManager({
+      challengeResponse: params.challengeResponse,
+      getChallengeResponse: params.getChallengeResponse,
+      onRefreshFailed: (failure) => {
+        this.#metrics.recordError('minter', Error(failure.error));
+        params.onMinterRefreshFailed?.(failure);
+      },
+      onRotated: () => {
+        this.#metrics.recordMinterRefresh();
+        params.onMinterRotated?.();
+      }
+    }));
+    const serverConfig: InnertubeSupportServerConfig = {
+      secret: params.secret,
+      potFn: async (identifier) => {
+        let poToken: string;
+        let minterResult;
+        try {
+          minterResult = await minterManager.getMinter();
+          poToken = await minterResult.minter.mintAsWebsafeString(identifier);
+        } catch (error: unknown) {
+          this.#metrics.recordError('pot', error);
+          throw error;
+        }
+        this.#metrics.recordPoTokenMinted();
+        const { ttl, refreshThreshold, created } = minterResult;
+        const adjustedTTL = Math.floor(
+          (ttl * 1000 + created - Date.now()) / 1000
+        );
+        return {
+          poToken,
+          ttl: adjustedTTL,
+          refreshThreshold
+        };
+      },
+      evalFn: (params) => this.#eval(params),
+      statsFn: () => this.getStats(),
+      statusFn: () => this.getDiagnostics()
+    };
+    const transport = params.options?.transport || 'http';
+    switch (transport) {
+      case 'stdio': {
+        if (!params.stdioChannel) {
+          throw Error('Transport "stdio" requires a stdio channel');
+        }
+        // Stdio is private to the parent process - no need to authenticate
+        registerSupportServiceMethods(params.stdioChannel, serverConfig);
+        return {
+          status: 'started',
+          transport
+        };
+      }
+      case 'socket': {
+        const socketPath = params.options?.socketPath;
+        if (!socketPath) {
+          throw Error('Transport "socket" requires a socket path');
+        }
+        const { InnertubeSupportSocketServer } = await import('./RpcServer');
+        const server = (this.#server = new InnertubeSupportSocketServer({
+          ...serverConfig,
+          path: socketPath
+        }));
+        const { path } = await server.start();
+        return {
+          status: 'started',
+          transport,
+          socket: { path }
+        };
+      }
+      case 'http': {
+        // Loaded on demand so express is not pulled in for other transports
+        const { InnertubeSupportServer } = await import('./Server');
+        const server = (this.#server = new InnertubeSupportServer({
+          ...serverConfig,
+          address: params.options?.address,
+          port: params.options?.port
+        }));
+        const { address, port } = await server.start();
+        return {
+          status: 'started',
+          transport,
+          server: { address, port }
+        };
+      }
+    }
+  }
+
   async stop() {
     if (this.#status.status === 'stopped') {
       return;
     }
-    await this.#server?.stop()?.finally(() => {
+    this.#minterManager?.dispose();
+    this.#minterManager = null;
+    try {
+      await this.#server?.stop();
+      await this.#sandbox.dispose();
+    } finally {
       this.#startPromise = null;
       this.#server = null;
       this.#status = {
         status: 'stopped'
       };
-    });
+    }
   }
 
   get status() {
@@ -0,0 +1,178 @@
+import { type IGetChallengeResponse } from 'volumio-youtubei.js';
+import { abortable } from '../utils/Abort';
+import { getErrorMessage, type Logger } from '../utils/Logger';
+import {
+  InnertubeSupportServiceSupervisor,
+  type InnertubeSupportServiceSupervisorCallbacks,
+  type InnertubeSupportServiceSupervisorConfig
+} from './Supervisor';
+
+// Config that determines which shared service a lease attaches to
+export type SharedServiceConfig = Omit<
+  InnertubeSupportServiceSupervisorConfig,
+  'getChallengeResponse' | 'callbacks' | 'logger'
+>;
+
+export interface SharedServiceLeaseConfig {
+  getChallengeResponse: () => Promise<IGetChallengeResponse>;
+  callbacks: InnertubeSupportServiceSupervisorCallbacks;
+  logger: Logger;
+}
+
+interface SharedServiceEntry {
+  key: string;
+  supervisor: InnertubeSupportServiceSupervisor;
+  leases: Set<SharedServiceLease>;
+  startPromise: Promise<unknown> | null;
+}
+
+const entries = new Map<string, SharedServiceEntry>();
+
+function getKey(config: SharedServiceConfig) {
+  const { jsRuntime, runtimePaths, respawn, options, denoPermissions } = config;
+  return JSON.stringify({
+    jsRuntime: jsRuntime || 'auto',
+    runtimePaths,
+    respawn,
+    options,
+    denoPermissions
+  });
+}
+
+function createEntry(key: string, config: SharedServiceConfig, logger: Logger) {
+  const leases = new Set<SharedServiceLease>();
+  // Notify every wrapper sharing the service
+  const fanOut =
+    <K extends keyof InnertubeSupportServiceSupervisorCallbacks>(name: K) =>
+    (...args: Parameters<InnertubeSupportServiceSupervisorCallbacks[K]>) => {
+      for (const lease of leases) {
+        (lease.config.callbacks[name] as (...a: typeof args) => void)(...args);
+      }
+    };
+  const entry: SharedServiceEntry = {
+    key,
+    leases,
+    startPromise: null,
+    supervisor: new InnertubeSupportServiceSupervisor({
+      ...config,
+      // Any wrapper sharing the service can provide a challenge
+      getChallengeResponse: async () => {
+        let lastError: unknown = Error('No wrapper to obtain challenge from');
+        for (const lease of leases) {
+          try {
+            return await lease.config.getChallengeResponse();
+          } catch (error: unknown) {
+            lastError = error;
+          }
+        }
+        throw lastError;
+      },
+      callbacks: {
+        onRestarting: fanOut('onRestarting'),
+        onRestarted: fanOut('onRestarted'),
+        onStopped: fanOut('onStopped'),
+        onRestartFailed: fanOut('onRestartFailed'),
+        onMinterRefreshFailed: fanOut('onMinterRefreshFailed'),
+        onMinterRotated: fanOut('onMinterRotated')
+      },
+      logger
+    })
+  };
+  return entry;
+}
+
+/**
+ * A reference to a support service shared by wrappers in the same process
+ * that are configured alike. The service is spawned when the first lease
+ * is started and stopped when the last one is released through `stop()`.
+ * Exposes the same interface as `InnertubeSupportServiceSupervisor`.
+ */
+export class SharedServiceLease {
+  readonly config: SharedServiceLeaseConfig;
+  #entry: SharedServiceEntry;
+  #released: boolean;
+
+  constructor(
+    config: SharedServiceConfig,
+    leaseConfig: SharedServiceLeaseConfig
+  ) {
+    this.config = leaseConfig;
+    const key = getKey(config);
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = createEntry(key, config, leaseConfig.logger);
+      entries.set(key, entry);
+    } else {
+      leaseConfig.logger.info(
+        `Sharing Innertube support service with ${entry.leases.size} other instance(s)`
+      );
+    }
+    entry.leases.add(this);
+    this.#entry = entry;
+    this.#released = false;
+  }
+
+  /**
+   * Spawns the service if not already started by another lease.
+   *
+   * @param signal Aborts waiting for the service. The service itself
+   * continues to start if other leases hold it.
+   */
+  async start(signal?: AbortSignal) {
+    const entry = this.#entry;
+    if (!entry.startPromise) {
+      const startPromise = entry.supervisor.start();
+      entry.startPromise = startPromise;
+      startPromise.catch((error: unknown) => {
+        // Let the next lease spawn afresh
+        if (entries.get(entry.key) === entry) {
+          entries.delete(entry.key);
+        }
+        this.config.logger.error(
+          getErrorMessage(
+            'Failed to start shared Innertube support service:',
+            error,
+            false
+          )
+        );
+      });
+    }
+    await abortable(entry.startPromise, signal);
+    return this.getService();
+  }
+
+  getService() {
+    if (this.#released) {
+      throw Error('Innertube support service already stopped');
+    }
+    return this.#entry.supervisor.getService();
+  }
+
+  /**
+   * Releases this lease. Stops the service if no other lease holds it.
+   */
+  async stop() {
+    if (this.#released) {
+      return;
+    }
+    this.#released = true;
+    const entry = this.#entry;
+    entry.leases.delete(this);
+    if (entry.leases.size > 0) {
+      return;
+    }
+    if (entries.get(entry.key) === entry) {
+      entries.delete(entry.key);
+    }
+    await entry.supervisor.stop();
+  }
+
+  get service() {
+    return this.#released ? null : this.#entry.supervisor.service;
+  }
+
+  // Number of leases holding the service, including this one
+  get refCount() {
+    return this.#released ? 0 : this.#entry.leases.size;
+  }
+}
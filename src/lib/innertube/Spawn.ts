@@ -1,20 +1,94 @@
-import { isDenoInstalled } from './Utils';
 import { spawn } from 'child_process';
+import { randomBytes } from 'crypto';
+import fs from 'fs';
+import os from 'os';
 import readline from 'readline';
 import { type InnertubeSupportServiceStatus } from './Service';
 import path from 'path';
 import kill from 'tree-kill';
 import { type IGetChallengeResponse } from 'volumio-youtubei.js';
+import {
+  decodeMessage,
+  encodeMessage,
+  type InnertubeSupportServiceOptions,
+  type MinterRefreshFailure,
+  PARENT_RPC_METHODS,
+  PROTOCOL_VERSION
+} from './Protocol';
+import { RpcChannel } from './Rpc';
+import { abortable, getAbortReason } from '../utils/Abort';
+import {
+  type DenoPermissionError,
+  type DenoPermissions,
+  parseDenoPermissionDenial
+} from './DenoPermissions';
+import {
+  JS_RUNTIMES,
+  type JsRuntime,
+  type JsRuntimeOption,
+  type JsRuntimePaths,
+  selectJsRuntime,
+  type ServiceSandboxLevel
+} from './Runtime';
+import {
+  connectSocketChannel,
+  HttpServiceClient,
+  type InnertubeSupportServiceClient,
+  RpcServiceClient
+} from './Client';
 
 export type SpawnedInnertubeSupportService = InnertubeSupportServiceStatus & {
   stop: () => Promise<void>;
-  runtime: 'node' | 'deno';
+  runtime: JsRuntime;
+  sandboxLevel: ServiceSandboxLevel;
+  // Shared secret that must accompany every request to the service
+  secret: string;
+  client: InnertubeSupportServiceClient;
 };
 
 export interface SpawnedInnertubeSupportServiceCallbacks {
   onStdOut: (data: any) => void;
   onStdErr: (data: any) => void;
   onStop: () => void;
+  onMinterRefreshFailed?: (failure: MinterRefreshFailure) => void;
+  onMinterRotated?: () => void;
+}
+
+export const DEFAULT_SERVICE_START_TIMEOUT = 60000;
+
+export class ServiceStartTimeoutError extends Error {
+  timeout: number;
+
+  constructor(timeout: number) {
+    super(`Service did not start within ${timeout}ms`);
+    this.name = 'ServiceStartTimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * The service process could not be launched, exited before completing the
+ * handshake, or reported failure to start.
+ */
+export class ServiceSpawnError extends Error {
+  exitCode?: number | null;
+
+  constructor(
+    message: string,
+    options?: { cause?: unknown; exitCode?: number | null }
+  ) {
+    super(message, { cause: options?.cause });
+    this.name = 'ServiceSpawnError';
+    this.exitCode = options?.exitCode;
+  }
+}
+
+// The handshake message could not be parsed or is invalid
+export class ServiceHandshakeError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ServiceHandshakeError';
+  }
 }
 
 const runScript = path.resolve(__dirname, '../../scripts/run.js');
@@ -23,113 +97,277 @@ const env = {
   PATH: process.env.PATH
 };
 
-export function spawnInnertubeSupportService(params: {
-  jsRuntime?: 'node' | 'deno';
+export async function spawnInnertubeSupportService(params: {
+  // Default: 'auto'
+  jsRuntime?: JsRuntimeOption;
   challengeResponse: IGetChallengeResponse;
+  // Provides fresh challenges when the service refreshes its minter
+  getChallengeResponse?: () => Promise<IGetChallengeResponse>;
+  options?: InnertubeSupportServiceOptions;
+  runtimePaths?: JsRuntimePaths;
+  // Applies when service runs under Deno
+  denoPermissions?: DenoPermissions;
+  // Default: `DEFAULT_SERVICE_START_TIMEOUT`
+  startTimeout?: number;
+  // Aborting kills the process if service has not yet started
+  signal?: AbortSignal;
   callbacks: SpawnedInnertubeSupportServiceCallbacks;
 }) {
+  const { signal } = params;
+  signal?.throwIfAborted();
   const { challengeResponse, callbacks } = params;
-  let runtime = params.jsRuntime;
+  const secret = randomBytes(32).toString('hex');
+  const options: InnertubeSupportServiceOptions = { ...params.options };
+  if (options.transport === 'socket' && !options.socketPath) {
+    options.socketPath = path.join(
+      os.tmpdir(),
+      `volumio-yt-support-${process.pid}-${randomBytes(4).toString('hex')}.sock`
+    );
+  }
+  const socketPath =
+    options.transport === 'socket' ? options.socketPath : undefined;
+  const { onStdOut, onStdErr, onStop } = callbacks;
+  const { runtime, version, launch } = await abortable(
+    selectJsRuntime(
+      params.jsRuntime ?? 'auto',
+      params.runtimePaths,
+      {
+        runScript,
+        cwd,
+        options,
+        challengeResponse,
+        denoPermissions: params.denoPermissions
+      },
+      (_runtime, error) => {
+        onStdOut(error.message);
+      }
+    ),
+    signal
+  );
+  const startTimeout = params.startTimeout ?? DEFAULT_SERVICE_START_TIMEOUT;
   return new Promise<SpawnedInnertubeSupportService>((resolve, reject) => {
-    const { onStdOut, onStdErr, onStop } = callbacks;
-    let proc;
-    const denoStatus = isDenoInstalled();
-    if (
-      (runtime === undefined || runtime === 'deno') &&
-      !denoStatus.installed
-    ) {
-      onStdOut(
-        `Deno not installed or otherwise failed to start: ${denoStatus.error.message}`
-      );
-      if (runtime === 'deno') {
-        throw Error('JS runtime "Deno" not found');
+    const { sandboxLevel } = launch;
+    onStdOut(
+      `Start service with ${JS_RUNTIMES[runtime].displayName}: ${version}${launch.note ? ` (${launch.note})` : ''}`
+    );
+    const proc = spawn(launch.command, launch.args, {
+      cwd,
+      env
+    });
+
+    // Rejects (at most once) until service has started
+    let settled = false;
+    const fail = (error: Error) => {
+      if (settled) {
+        return;
       }
-    }
-    if (runtime === undefined) {
-      runtime = denoStatus.installed ? 'deno' : 'node';
-    }
-    if (runtime === 'deno' && denoStatus.installed) {
-      onStdOut(`Start service with Deno: ${denoStatus.version}`);
-      runtime = 'deno';
-      proc = spawn(
-        'npx',
-        [
-          'deno',
-          'run',
-          '--quiet',
-          '--no-prompt',
-          '--allow-read=.',
-          '--allow-net',
-          '--allow-env',
-          runScript,
-          '--challenge_response',
-          JSON.stringify(challengeResponse)
-        ],
-        {
-          cwd,
-          env
-        }
-      );
-    } else {
-      onStdOut('Start service with Node');
-      runtime = 'node';
-      proc = spawn(
-        'node',
-        [runScript, '--challenge_response', JSON.stringify(challengeResponse)],
-        {
-          cwd,
-          env
-        }
+      settled = true;
+      cleanup();
+      void stop();
+      reject(error);
+    };
+    proc.on('error', (error) => {
+      onStdErr(`Process error: ${error.message}`);
+      fail(
+        new ServiceSpawnError(
+          `Failed to launch "${launch.command}": ${error.message}`,
+          { cause: error }
+        )
       );
-    }
-
-    proc.stdout.on('data', (data) => {
-      onStdOut(data);
     });
 
+    // Last operation rejected by Deno, for reporting startup failure
+    let permissionDenial: DenoPermissionError | null = null;
     proc.stderr.on('data', (data) => {
       onStdErr(data);
+      if (runtime === 'deno') {
+        permissionDenial =
+          parseDenoPermissionDenial(String(data)) ?? permissionDenial;
+      }
+    });
+
+    // Channel for RPC over stdio
+    const stdioChannel = new RpcChannel((payload) => {
+      proc.stdin.write(`${encodeMessage({ type: 'rpc', payload })}\n`);
+    });
+    stdioChannel.register(PARENT_RPC_METHODS.GET_CHALLENGE, () => {
+      if (!params.getChallengeResponse) {
+        throw Error('Challenge provider not available');
+      }
+      return params.getChallengeResponse();
+    });
+    stdioChannel.register(
+      PARENT_RPC_METHODS.MINTER_REFRESH_FAILED,
+      (failure: MinterRefreshFailure) => {
+        callbacks.onMinterRefreshFailed?.(failure);
+      }
+    );
+    stdioChannel.register(PARENT_RPC_METHODS.MINTER_ROTATED, () => {
+      callbacks.onMinterRotated?.();
     });
 
+    let closed = false;
+    // Set once the service reports listening on `socketPath`. Otherwise, the
+    // path may belong to another process and must be left alone.
+    let socketBound = false;
     proc.on('close', (code) => {
+      closed = true;
       onStdOut(`Process closed with code ${code}`);
+      stdioChannel.close('Service process closed');
+      if (socketPath && socketBound) {
+        fs.rmSync(socketPath, { force: true });
+      }
+      fail(
+        permissionDenial ??
+          new ServiceSpawnError(
+            `Process exited with code ${code} before service started`,
+            { exitCode: code }
+          )
+      );
       onStop();
     });
 
+    // Hand bootstrap data to the service through stdin, so it does not
+    // show up in process listings. Stdin is kept open - the service
+    // exits when it closes.
+    proc.stdin.on('error', (error) => {
+      onStdErr(`Error writing to stdin: ${error.message}`);
+    });
+    proc.stdin.write(
+      `${encodeMessage({
+        type: 'bootstrap',
+        version: PROTOCOL_VERSION,
+        challengeResponse,
+        secret,
+        options
+      })}\n`
+    );
+
+    const stop = () =>
+      new Promise<void>((resolve) => {
+        if (closed) {
+          return resolve();
+        }
+        onStdOut('Stopping service...');
+        if (proc.pid) {
+          proc.once('close', () => resolve());
+          kill(proc.pid);
+        } else {
+          onStdErr('Could not stop service because process lacks pid');
+          resolve();
+        }
+      });
+
+    const startTimer = setTimeout(() => {
+      fail(new ServiceStartTimeoutError(startTimeout));
+    }, startTimeout);
+    const onAbort = () => {
+      onStdOut('Service startup aborted');
+      fail(getAbortReason(signal as AbortSignal));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const cleanup = () => {
+      clearTimeout(startTimer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    if (signal?.aborted) {
+      onAbort();
+    }
+
     const rl = readline.createInterface({
       input: proc.stdout,
       crlfDelay: Infinity
     });
     rl.on('line', (line) => {
-      if (line.startsWith('result: ')) {
-        const resultJSON = line.substring('result: '.length);
-        try {
-          return resolve({
-            ...JSON.parse(resultJSON),
-            runtime,
-            stop: () =>
-              new Promise((resolve) => {
-                onStdOut('Stopping service...');
-                if (proc.pid) {
-                  proc.once('close', () => resolve());
-                  kill(proc.pid);
-                } else {
-                  onStdErr('Could not stop service because process lacks pid');
-                  resolve();
-                }
-              })
-          });
-        } catch (err) {
-          proc.kill();
-          return reject(
-            Error(
-              `Failed to parse service result: ${err instanceof Error ? err.message : String(err)}`
-            )
+      let message;
+      try {
+        message = decodeMessage(line);
+      } catch (error: unknown) {
+        onStdErr(error instanceof Error ? error.message : String(error));
+        // Before startup, a malformed message can only be the handshake
+        fail(
+          new ServiceHandshakeError('Failed to parse handshake message', {
+            cause: error
+          })
+        );
+        return;
+      }
+      if (!message) {
+        onStdOut(line);
+        return;
+      }
+      if (message.type === 'rpc') {
+        stdioChannel.receive(message.payload);
+        return;
+      }
+      if (message.type !== 'handshake' || settled) {
+        return;
+      }
+      if (message.version !== PROTOCOL_VERSION) {
+        return fail(
+          new ServiceHandshakeError(
+            `Service protocol version mismatch (expected ${PROTOCOL_VERSION}, got ${message.version})`
+          )
+        );
+      }
+      if (!message.ok) {
+        const denial =
+          runtime === 'deno' ?
+            (parseDenoPermissionDenial(message.error) ?? permissionDenial)
+          : null;
+        return fail(
+          denial ??
+            new ServiceSpawnError(`Service failed to start: ${message.error}`)
+        );
+      }
+      const status = message.status;
+      if (status.status !== 'started') {
+        return fail(
+          new ServiceHandshakeError('Service reported invalid status')
+        );
+      }
+      settled = true;
+      cleanup();
+      socketBound =
+        status.transport === 'socket' && status.socket.path === socketPath;
+      let client: InnertubeSupportServiceClient;
+      switch (status.transport) {
+        case 'http':
+          client = new HttpServiceClient({ ...status.server, secret });
+          break;
+        case 'socket':
+          client = new RpcServiceClient(() =>
+            connectSocketChannel(status.socket.path, secret)
           );
-        } finally {
-          rl.close();
-        }
+          break;
+        case 'stdio':
+          client = new RpcServiceClient(() => Promise.resolve(stdioChannel));
+          break;
       }
+      resolve({
+        ...status,
+        runtime,
+        sandboxLevel,
+        secret,
+        client,
+        stop
+      });
     });
   });
 }
+
+export function describeServiceEndpoint(
+  service: InnertubeSupportServiceStatus
+) {
+  if (service.status !== 'started') {
+    return 'not started';
+  }
+  switch (service.transport) {
+    case 'http':
+      return `http://${service.server.address}:${service.server.port}`;
+    case 'socket':
+      return `socket ${service.socket.path}`;
+    case 'stdio':
+      return 'stdio';
+  }
+}
@@ -0,0 +1,49 @@
+import readline from 'readline';
+
+export interface StdinLineReaderCallbacks {
+  onLine: (line: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Reads stdin line by line. Works under Deno as well as Node.
+ */
+export function readStdinLines(callbacks: StdinLineReaderCallbacks) {
+  const { onLine, onClose } = callbacks;
+  const deno = (globalThis as any).Deno;
+  if (deno) {
+    void (async () => {
+      const decoder = new TextDecoder();
+      let buffer = '';
+      const flush = () => {
+        let index: number;
+        while ((index = buffer.indexOf('\n')) >= 0) {
+          const line = buffer.substring(0, index).replace(/\r$/, '');
+          buffer = buffer.substring(index + 1);
+          onLine(line);
+        }
+      };
+      try {
+        for await (const chunk of deno.stdin.readable) {
+          buffer += decoder.decode(chunk, { stream: true });
+          flush();
+        }
+        buffer += decoder.decode();
+        flush();
+      } catch (error: unknown) {
+        console.error(
+          `Error reading stdin: ${error instanceof Error ? error.message : String(error)}`
+        );
+      } finally {
+        onClose();
+      }
+    })();
+    return;
+  }
+  const rl = readline.createInterface({
+    input: process.stdin,
+    crlfDelay: Infinity
+  });
+  rl.on('line', onLine);
+  rl.on('close', onClose);
+}
@@ -0,0 +1,240 @@
+import { type Misc, type Player, Utils } from 'volumio-youtubei.js';
+import { type ClientProfileName } from './ClientProfile';
+import { ServiceEvalError } from './Protocol';
+
+export type StreamType = 'audio' | 'video' | 'video+audio';
+
+export interface StreamFormatPreferences {
+  /**
+   * Default: 'audio'.
+   */
+  type?: StreamType;
+  /**
+   * Codec to match against the `codecs` parameter of the format's MIME
+   * type, e.g. 'opus', 'mp4a', 'avc1'.
+   */
+  codec?: string;
+  /**
+   * Container to match against the format's MIME type, e.g. 'webm', 'mp4'.
+   */
+  container?: string;
+  /**
+   * Formats with a higher bitrate (bps) are excluded.
+   */
+  maxBitrate?: number;
+  /**
+   * 'best' picks the matching format with the highest bitrate, 'lowest' the
+   * one with the lowest. Default: 'best'.
+   */
+  quality?: 'best' | 'lowest';
+}
+
+export interface ResolveStreamOptions extends StreamFormatPreferences {
+  /**
+   * Innertube client used for fetching streaming data. If a list is given,
+   * clients are tried in order until one finds the video playable.
+   * Default: `DEFAULT_CLIENT_FALLBACK_ORDER`.
+   */
+  client?: ClientProfileName | ClientProfileName[];
+}
+
+export interface ResolvedStreamFormat {
+  itag: number;
+  mimeType: string;
+  container: string | null;
+  codecs: string[];
+  // Bits per second
+  bitrate: number;
+  sampleRate: number | null;
+  channels: number | null;
+  // Bytes
+  contentLength: number | null;
+  hasAudio: boolean;
+  hasVideo: boolean;
+}
+
+export interface ResolvedStream {
+  videoId: string;
+  url: string;
+  client: ClientProfileName;
+  format: ResolvedStreamFormat;
+  // Seconds; `null` if unknown (e.g. live streams)
+  duration: number | null;
+  // Time (ms since epoch) after which `url` stops working; `null` if unknown
+  expires: number | null;
+}
+
+export class NoMatchingStreamFormatError extends Error {
+  videoId: string;
+  preferences: StreamFormatPreferences;
+
+  constructor(videoId: string, preferences: StreamFormatPreferences) {
+    super(
+      `No format of video "${videoId}" matches preferences: ${JSON.stringify(preferences)}`
+    );
+    this.name = 'NoMatchingStreamFormatError';
+    this.videoId = videoId;
+    this.preferences = preferences;
+  }
+}
+
+export class StreamDecipherError extends Error {
+  itag: number;
+
+  constructor(message: string, itag: number, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'StreamDecipherError';
+    this.itag = itag;
+  }
+}
+
+// E.g. 'audio/webm; codecs="opus"'
+function parseMimeType(mimeType: string) {
+  const [type, ...params] = mimeType.split(';').map((s) => s.trim());
+  const container = type.split('/')[1] || null;
+  const codecsParam = params.find((p) => p.startsWith('codecs='));
+  const codecs =
+    codecsParam ?
+      codecsParam
+        .slice('codecs='.length)
+        .replace(/"/g, '')
+        .split(',')
+        .map((c) => c.trim())
+        .filter((c) => c)
+    : [];
+  return { container, codecs };
+}
+
+function matchesType(format: Misc.Format, type: StreamType) {
+  switch (type) {
+    case 'audio':
+      return format.has_audio && !format.has_video;
+    case 'video':
+      return format.has_video && !format.has_audio;
+    case 'video+audio':
+      return format.has_video && format.has_audio;
+  }
+}
+
+export function chooseStreamFormat(
+  formats: Misc.Format[],
+  preferences: StreamFormatPreferences
+): Misc.Format | null {
+  const {
+    type = 'audio',
+    codec,
+    container,
+    maxBitrate,
+    quality = 'best'
+  } = preferences;
+  const candidates = formats.filter((format) => {
+    if (!matchesType(format, type)) {
+      return false;
+    }
+    const mime = parseMimeType(format.mime_type);
+    if (container && mime.container !== container) {
+      return false;
+    }
+    if (codec && !mime.codecs.some((c) => c.startsWith(codec))) {
+      return false;
+    }
+    if (maxBitrate && format.bitrate > maxBitrate) {
+      return false;
+    }
+    return true;
+  });
+  candidates.sort((a, b) =>
+    quality === 'best' ? b.bitrate - a.bitrate : a.bitrate - b.bitrate
+  );
+  return candidates[0] ?? null;
+}
+
+export function getResolvedStreamFormat(
+  format: Misc.Format
+): ResolvedStreamFormat {
+  const { container, codecs } = parseMimeType(format.mime_type);
+  return {
+    itag: format.itag,
+    mimeType: format.mime_type,
+    container,
+    codecs,
+    bitrate: format.bitrate,
+    sampleRate:
+      format.audio_sample_rate ? Number(format.audio_sample_rate) : null,
+    channels: format.audio_channels ?? null,
+    contentLength: format.content_length ? Number(format.content_length) : null,
+    hasAudio: format.has_audio,
+    hasVideo: format.has_video
+  };
+}
+
+/**
+ * Replaces the `pot` param of a deciphered stream URL. Innertube sets it to
+ * the session-bound PO token, but YouTube requires the content-bound token,
+ * otherwise requests for the stream fail with 403.
+ * See: https://github.com/TeamNewPipe/NewPipeExtractor/issues/1392
+ */
+export function setStreamUrlPoToken(url: string, poToken: string) {
+  const result = new URL(url);
+  result.searchParams.set('pot', poToken);
+  return result.toString();
+}
+
+// Stream URLs carry their expiry time (seconds since epoch) in `expire` param
+export function getStreamUrlExpiry(url: string) {
+  const expire = Number(new URL(url).searchParams.get('expire'));
+  return expire > 0 ? expire * 1000 : null;
+}
+
+function getNParam(url: string | null | undefined) {
+  if (!url) {
+    return null;
+  }
+  try {
+    return new URL(url).searchParams.get('n');
+  } catch {
+    return null;
+  }
+}
+
+// Failures that another player might not run into. Others (e.g. support
+// service unreachable) are not the player's fault.
+function isPlayerFailure(error: unknown) {
+  return (
+    error instanceof Utils.PlayerError ||
+    (error instanceof ServiceEvalError && error.code === 'SCRIPT_ERROR')
+  );
+}
+
+/**
+ * Deciphers the stream URL of `format`. Throws `StreamDecipherError` if
+ * the player fails to decipher it, including when the n param is left
+ * unchanged - a sign that the player's n transform function could not be
+ * applied. Other errors are rethrown as is.
+ */
+export async function decipherStreamUrl(format: Misc.Format, player: Player) {
+  let url: string;
+  try {
+    url = await format.decipher(player);
+  } catch (error: unknown) {
+    if (!isPlayerFailure(error)) {
+      throw error;
+    }
+    throw new StreamDecipherError(
+      `Failed to decipher URL of format ${format.itag}: ${error instanceof Error ? error.message : String(error)}`,
+      format.itag,
+      { cause: error }
+    );
+  }
+  const cipher = format.signature_cipher || format.cipher;
+  const originalN = getNParam(
+    format.url || (cipher ? new URLSearchParams(cipher).get('url') : null)
+  );
+  if (originalN && getNParam(url) === originalN) {
+    throw new StreamDecipherError(
+      `n param of format ${format.itag} unchanged after deciphering`,
+      format.itag
+    );
+  }
+  return url;
+}
@@ -0,0 +1,152 @@
+import { LRUCache } from '../utils/LRUCache';
+import { DefaultLogger, getErrorMessage, type Logger } from '../utils/Logger';
+import { type ResolvedStream, type ResolveStreamOptions } from './Stream';
+import { type InnertubeWrapper } from './Wrapper';
+
+export interface StreamResolverConfig {
+  wrapper: InnertubeWrapper;
+  /**
+   * A stream is re-resolved for playback if its URL expires within this
+   * time (ms). Should cover the time taken for the player to start
+   * fetching the stream. Default: 300000 (5 minutes).
+   */
+  expiryMargin?: number;
+  /**
+   * Max number of streams tracked. Default: 200.
+   */
+  maxEntries?: number;
+  logger?: Logger;
+}
+
+export const DEFAULT_STREAM_EXPIRY_MARGIN = 300000;
+export const DEFAULT_STREAM_RESOLVER_MAX_ENTRIES = 200;
+
+/**
+ * Resolves streams through `InnertubeWrapper.resolveStream()` and tracks
+ * when their URLs expire, so that streams resolved well ahead of playback
+ * (e.g. when tracks are added to queue) can be re-resolved just in time.
+ */
+export class StreamResolver {
+  #config: StreamResolverConfig;
+  #logger: Logger;
+  #expiryMargin: number;
+  #streams: LRUCache<string, ResolvedStream>;
+  #pending: Map<string, Promise<ResolvedStream>>;
+
+  constructor(config: StreamResolverConfig) {
+    this.#config = config;
+    this.#logger = config.logger || new DefaultLogger();
+    this.#expiryMargin = config.expiryMargin ?? DEFAULT_STREAM_EXPIRY_MARGIN;
+    this.#streams = new LRUCache(
+      config.maxEntries ?? DEFAULT_STREAM_RESOLVER_MAX_ENTRIES
+    );
+    this.#pending = new Map();
+  }
+
+  static #getKey(videoId: string, options: ResolveStreamOptions) {
+    const entries = Object.entries(options)
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `${videoId}:${JSON.stringify(entries)}`;
+  }
+
+  /**
+   * Resolves a fresh stream and tracks its expiry.
+   */
+  resolve(videoId: string, options: ResolveStreamOptions = {}) {
+    const key = StreamResolver.#getKey(videoId, options);
+    // Coalesce concurrent requests
+    let pending = this.#pending.get(key);
+    if (!pending) {
+      pending = this.#config.wrapper
+        .resolveStream(videoId, options)
+        .then((stream) => {
+          this.#streams.set(key, stream);
+          return stream;
+        })
+        .finally(() => {
+          this.#pending.delete(key);
+        });
+      this.#pending.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Hook to call when playback of `videoId` is about to start (e.g. from
+   * a plugin's `clearAddPlayTrack()`). Returns the tracked stream if its URL
+   * remains valid beyond the expiry margin, otherwise re-resolves it.
+   */
+  async prepareForPlayback(
+    videoId: string,
+    options: ResolveStreamOptions = {}
+  ): Promise<ResolvedStream> {
+    const key = StreamResolver.#getKey(videoId, options);
+    const tracked = this.#streams.get(key);
+    if (tracked && !this.#isExpiring(tracked)) {
+      return tracked;
+    }
+    if (tracked) {
+      this.#logger.info(
+        `Stream URL of video "${videoId}" ${this.#describeExpiry(tracked)} - re-resolving`
+      );
+    }
+    try {
+      return await this.resolve(videoId, options);
+    } catch (error: unknown) {
+      this.#logger.error(
+        getErrorMessage(
+          `Failed to resolve stream of video "${videoId}":`,
+          error,
+          false
+        )
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Time (ms since epoch) when the URL of the tracked stream expires.
+   * `null` if the stream is not tracked or its expiry is unknown.
+   */
+  getExpiry(videoId: string, options: ResolveStreamOptions = {}) {
+    return (
+      this.#streams.get(StreamResolver.#getKey(videoId, options))?.expires ??
+      null
+    );
+  }
+
+  // Streams of unknown expiry are treated as expiring
+  #isExpiring(stream: ResolvedStream) {
+    return (
+      stream.expires === null ||
+      stream.expires - Date.now() <= this.#expiryMargin
+    );
+  }
+
+  #describeExpiry(stream: ResolvedStream) {
+    if (stream.expires === null) {
+      return 'has unknown expiry';
+    }
+    const remaining = stream.expires - Date.now();
+    return remaining > 0 ?
+        `expires in ${Math.round(remaining / 1000)} seconds`
+      : 'has expired';
+  }
+
+  /**
+   * Stops tracking streams of `videoId`, or all streams if `videoId` is
+   * omitted.
+   */
+  invalidate(videoId?: string) {
+    if (videoId === undefined) {
+      this.#streams.clear();
+      return;
+    }
+    for (const key of this.#streams.keys()) {
+      if (key.startsWith(`${videoId}:`)) {
+        this.#streams.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,258 @@
+import { type IGetChallengeResponse } from 'volumio-youtubei.js';
+import {
+  type SpawnedInnertubeSupportService,
+  spawnInnertubeSupportService
+} from './Spawn';
+import { getErrorMessage, type Logger } from '../utils/Logger';
+import { abortable } from '../utils/Abort';
+import {
+  type InnertubeSupportServiceOptions,
+  type MinterRefreshFailure
+} from './Protocol';
+import { type DenoPermissions } from './DenoPermissions';
+import { type JsRuntimeOption, type JsRuntimePaths } from './Runtime';
+
+export interface RespawnPolicy {
+  // Max number of consecutive respawn attempts before giving up
+  maxRetries: number;
+  // Delay (ms) before the first attempt. Doubled on each subsequent attempt.
+  initialDelay: number;
+  // Upper bound (ms) of the delay between attempts
+  maxDelay: number;
+}
+
+export const DEFAULT_RESPAWN_POLICY: RespawnPolicy = {
+  maxRetries: 5,
+  initialDelay: 1000,
+  maxDelay: 30000
+};
+
+export interface InnertubeSupportServiceSupervisorCallbacks {
+  onRestarting: (info: { attempt: number; delay: number }) => void;
+  onRestarted: (info: {
+    attempt: number;
+    service: SpawnedInnertubeSupportService;
+  }) => void;
+  // Service stopped unexpectedly
+  onStopped: (info: { willRespawn: boolean }) => void;
+  onRestartFailed: (info: {
+    attempt: number;
+    error: Error;
+    willRetry: boolean;
+  }) => void;
+  onMinterRefreshFailed: (failure: MinterRefreshFailure) => void;
+  onMinterRotated: () => void;
+}
+
+export interface InnertubeSupportServiceSupervisorConfig {
+  jsRuntime?: JsRuntimeOption;
+  runtimePaths?: JsRuntimePaths;
+  // `false` disables respawning
+  respawn?: Partial<RespawnPolicy> | false;
+  options?: InnertubeSupportServiceOptions;
+  denoPermissions?: DenoPermissions;
+  // Max time to wait for each (re)spawned service to start
+  startTimeout?: number;
+  // Each spawn (and minter refresh) requires a fresh attestation challenge
+  getChallengeResponse: () => Promise<IGetChallengeResponse>;
+  callbacks: InnertubeSupportServiceSupervisorCallbacks;
+  logger: Logger;
+}
+
+/**
+ * Spawns the Innertube support service and respawns it when the
+ * child process exits unexpectedly.
+ */
+export class InnertubeSupportServiceSupervisor {
+  #config: InnertubeSupportServiceSupervisorConfig;
+  #policy: RespawnPolicy | null;
+  #service: SpawnedInnertubeSupportService | null;
+  #restartPromise: Promise<SpawnedInnertubeSupportService | null> | null;
+  #restartDelayTimer: NodeJS.Timeout | null;
+  #cancelRestartDelay: (() => void) | null;
+  #stopped: boolean;
+
+  constructor(config: InnertubeSupportServiceSupervisorConfig) {
+    this.#config = config;
+    this.#policy =
+      config.respawn === false ?
+        null
+      : {
+          ...DEFAULT_RESPAWN_POLICY,
+          ...config.respawn
+        };
+    this.#service = null;
+    this.#restartPromise = null;
+    this.#restartDelayTimer = null;
+    this.#cancelRestartDelay = null;
+    this.#stopped = false;
+  }
+
+  /**
+   * @param signal Aborts the initial spawn. Has no effect once started.
+   */
+  async start(signal?: AbortSignal) {
+    return this.#spawn(signal);
+  }
+
+  /**
+   * Returns the running service. If the service is being respawned,
+   * waits for the outcome.
+   */
+  async getService() {
+    if (this.#stopped) {
+      throw Error('Innertube support service already stopped');
+    }
+    const service =
+      this.#restartPromise ? await this.#restartPromise : this.#service;
+    if (!service || service.status === 'stopped') {
+      throw Error('Innertube support service not started');
+    }
+    return service;
+  }
+
+  async #spawn(signal?: AbortSignal) {
+    const { logger } = this.#config;
+    const challengeResponse = await abortable(
+      this.#config.getChallengeResponse(),
+      signal
+    );
+    // `onStop` may be called before the spawn promise settles
+    let spawned: SpawnedInnertubeSupportService | null = null;
+    const service = (spawned = await spawnInnertubeSupportService({
+      jsRuntime: this.#config.jsRuntime,
+      runtimePaths: this.#config.runtimePaths,
+      challengeResponse,
+      getChallengeResponse: this.#config.getChallengeResponse,
+      options: this.#config.options,
+      denoPermissions: this.#config.denoPermissions,
+      startTimeout: this.#config.startTimeout,
+      signal,
+      callbacks: {
+        onStdOut: (data) => {
+          logger.info(`Innertube support service: ${data.toString()}`);
+        },
+        onStdErr: (data) => {
+          logger.error(`Innertube support service: ${data.toString()}`);
+        },
+        onStop: () => {
+          logger.info(`Innertube support service: Stopped`);
+          if (spawned && this.#service === spawned) {
+            spawned.client.close();
+            this.#service = null;
+            this.#handleUnexpectedStop();
+          }
+        },
+        onMinterRefreshFailed: (failure) => {
+          this.#config.callbacks.onMinterRefreshFailed(failure);
+        },
+        onMinterRotated: () => {
+          this.#config.callbacks.onMinterRotated();
+        }
+      }
+    }));
+    if (service.status !== 'started') {
+      await service.stop();
+      throw Error(`Failed to start Innertube support service`);
+    }
+    if (this.#stopped) {
+      await service.stop();
+      throw Error('Innertube support service already stopped');
+    }
+    this.#service = service;
+    return service;
+  }
+
+  #handleUnexpectedStop() {
+    if (this.#stopped || this.#restartPromise) {
+      return;
+    }
+    this.#config.callbacks.onStopped({ willRespawn: !!this.#policy });
+    if (!this.#policy) {
+      this.#config.logger.warn(
+        'Innertube support service stopped unexpectedly (respawn disabled)'
+      );
+      return;
+    }
+    this.#config.logger.warn(
+      'Innertube support service stopped unexpectedly - going to respawn'
+    );
+    this.#restartPromise = this.#restart(this.#policy).finally(() => {
+      this.#restartPromise = null;
+    });
+  }
+
+  async #restart(policy: RespawnPolicy) {
+    const { callbacks, logger } = this.#config;
+    for (let attempt = 1; attempt <= policy.maxRetries; attempt++) {
+      const delay = Math.min(
+        policy.initialDelay * 2 ** (attempt - 1),
+        policy.maxDelay
+      );
+      callbacks.onRestarting({ attempt, delay });
+      await this.#delayRestart(delay);
+      if (this.#stopped) {
+        return null;
+      }
+      try {
+        const service = await this.#spawn();
+        callbacks.onRestarted({ attempt, service });
+        return service;
+      } catch (error) {
+        const willRetry = !this.#stopped && attempt < policy.maxRetries;
+        logger.error(
+          getErrorMessage(
+            `Innertube support service: respawn attempt #${attempt} failed${willRetry ? '' : ' - giving up'}:`,
+            error,
+            false
+          )
+        );
+        callbacks.onRestartFailed({
+          attempt,
+          error: error instanceof Error ? error : Error(String(error)),
+          willRetry
+        });
+        if (!willRetry) {
+          return null;
+        }
+      }
+    }
+    return null;
+  }
+
+  #delayRestart(delay: number) {
+    return new Promise<void>((resolve) => {
+      this.#cancelRestartDelay = () => {
+        if (this.#restartDelayTimer) {
+          clearTimeout(this.#restartDelayTimer);
+          this.#restartDelayTimer = null;
+        }
+        this.#cancelRestartDelay = null;
+        resolve();
+      };
+      this.#restartDelayTimer = setTimeout(() => {
+        this.#restartDelayTimer = null;
+        this.#cancelRestartDelay = null;
+        resolve();
+      }, delay);
+    });
+  }
+
+  async stop() {
+    if (this.#stopped) {
+      return;
+    }
+    this.#stopped = true;
+    this.#cancelRestartDelay?.();
+    const service = this.#service;
+    this.#service = null;
+    if (service) {
+      service.client.close();
+      await service.stop();
+    }
+  }
+
+  get service() {
+    return this.#service;
+  }
+}
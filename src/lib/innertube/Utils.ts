@@ -1,41 +1,6 @@
-import { execSync } from 'child_process';
 import type Innertube from 'volumio-youtubei.js';
 import { type Logger } from '../utils/Logger';
 
-export type DenoInstallStatus =
-  | {
-      installed: true;
-      version: string;
-    }
-  | {
-      installed: false;
-      error: Error;
-    };
-
-let denoInstalled: DenoInstallStatus | undefined = undefined;
-
-export function isDenoInstalled(): DenoInstallStatus {
-  if (denoInstalled !== undefined) {
-    return denoInstalled;
-  }
-  try {
-    const output = execSync('npx --no-install --yes deno --version', {
-      cwd: __dirname,
-      encoding: 'utf-8'
-    });
-    denoInstalled = {
-      installed: true,
-      version: output.trim().split(/\r?\n/)[0]
-    };
-  } catch (error) {
-    denoInstalled = {
-      installed: false,
-      error: error instanceof Error ? error : Error(String(error))
-    };
-  }
-  return denoInstalled;
-}
-
 export async function getActiveAccountDatasyncIdToken(
   innertube: Innertube,
   logger: Logger,
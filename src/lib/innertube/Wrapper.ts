@@ -1,12 +1,66 @@
-import Innertube, { Platform } from 'volumio-youtubei.js';
-import {
-  type SpawnedInnertubeSupportService,
-  spawnInnertubeSupportService
-} from './Spawn';
+import { AsyncLocalStorage } from 'async_hooks';
+import EventEmitter from 'events';
+import Innertube, { Platform, Utils } from 'volumio-youtubei.js';
 import { getActiveAccountDatasyncIdToken } from './Utils';
-import { type EvalFnResult, type PotFnResult } from './Server';
-import { DefaultLogger, type Logger } from '../utils/Logger';
+import { type EvalFnResult } from './Server';
+import { DefaultLogger, getErrorMessage, type Logger } from '../utils/Logger';
+import { abortable } from '../utils/Abort';
 import { type PoTokenData } from './PoToken';
+import { describeServiceEndpoint } from './Spawn';
+import {
+  InnertubeSupportDaemonConnection,
+  type InnertubeSupportDaemonEndpoint
+} from './Attach';
+import {
+  type EvalLimits,
+  hashScript,
+  type InnertubeSupportServiceDiagnostics,
+  type InnertubeSupportServiceTransport
+} from './Protocol';
+import { DecipherCache, type DecipherCacheStats } from './DecipherCache';
+import { PoTokenCache, type PoTokenCacheStats } from './PoTokenCache';
+import {
+  chooseStreamFormat,
+  decipherStreamUrl,
+  getResolvedStreamFormat,
+  getStreamUrlExpiry,
+  NoMatchingStreamFormatError,
+  type ResolvedStream,
+  type ResolveStreamOptions,
+  setStreamUrlPoToken,
+  StreamDecipherError
+} from './Stream';
+import {
+  CLIENT_PROFILES,
+  type ClientProfileName,
+  DEFAULT_CLIENT_FALLBACK_ORDER,
+  getBasicInfoOptions,
+  type PlayabilityFailure,
+  VideoUnplayableError
+} from './ClientProfile';
+import {
+  checkDecipher,
+  HEALTH_CHECK_PO_TOKEN_IDENTIFIER,
+  HealthCheckError,
+  type HealthReport,
+  runHealthCheck
+} from './Health';
+import { type DenoPermissions } from './DenoPermissions';
+import {
+  type JsRuntime,
+  type JsRuntimeOption,
+  type JsRuntimePaths,
+  type ServiceSandboxLevel
+} from './Runtime';
+import {
+  type SharedServiceConfig,
+  SharedServiceLease,
+  type SharedServiceLeaseConfig
+} from './SharedService';
+import {
+  InnertubeSupportServiceSupervisor,
+  type RespawnPolicy
+} from './Supervisor';
 
 interface SessionIdentifier {
   type: 'visitorData' | 'datasyncIdToken';
@@ -29,162 +83,927 @@ export interface Locale {
 }
 
 export interface InnertubeWrapperConfig {
-  jsRuntime?: 'node' | 'deno';
+  /**
+   * JS runtime for the support service. Default: 'auto', which picks the
+   * most sandboxed runtime available.
+   */
+  jsRuntime?: JsRuntimeOption;
+  /**
+   * Paths to runtime executables, e.g. `{ deno: '/usr/local/bin/deno' }`.
+   * By default, Deno is located through `npx` and the others through PATH.
+   */
+  runtimePaths?: JsRuntimePaths;
   account?: AccountConfig;
   locale?: Locale;
+  /**
+   * Player ID to create the Innertube session with, instead of the latest
+   * one. Useful when YouTube makes breaking changes and the latest player
+   * cannot be deciphered.
+   */
+  playerId?: string;
+  /**
+   * Player IDs known to work, switched to in order when deciphering fails
+   * with the current player.
+   */
+  fallbackPlayerIds?: string[];
   logger?: Logger;
+  /**
+   * Policy for respawning the support service when it stops unexpectedly.
+   * Set to `false` to disable.
+   */
+  respawn?: Partial<RespawnPolicy> | false;
+  /**
+   * How to communicate with the support service. Default: 'http'.
+   */
+  transport?: InnertubeSupportServiceTransport;
+  /**
+   * Max number of memoized decipher results, kept by the wrapper as well as
+   * the support service. Default: 500.
+   */
+  decipherCacheSize?: number;
+  /**
+   * Max number of PO tokens cached by `generatePoToken()`. Default: 100.
+   */
+  poTokenCacheSize?: number;
+  /**
+   * Limits applied by the support service when evaluating scripts.
+   * Default: `{ timeout: 5000, maxMemoryMb: 128 }`.
+   */
+  evalLimits?: Partial<EvalLimits>;
+  /**
+   * Overrides the allow-lists applied when the support service runs under
+   * Deno. By default, network access is limited to the YouTube / Google
+   * hosts needed for minting PO tokens and env access to `PATH`, the only
+   * variable the service gets from the environment.
+   */
+  denoPermissions?: DenoPermissions;
+  /**
+   * Max time (ms) to wait for the support service to start, each time it
+   * is spawned. Default: 60000.
+   */
+  serviceStartTimeout?: number;
+  /**
+   * Runs `checkHealth()` at the end of initialization. With 'warn', failed
+   * checks are logged. With 'throw', `create()` rejects with a
+   * `HealthCheckError` if any check fails. Default: no self-test.
+   */
+  selfTest?: 'warn' | 'throw';
+  /**
+   * Shares the support service with other wrappers in the same process
+   * that also set this and have the same runtime and service options. The
+   * service is stopped when the last of them is disposed. Default: `false`.
+   */
+  sharedService?: boolean;
+  /**
+   * Attaches to a support service run as a daemon, instead of spawning one.
+   * Options concerning the spawned service (`jsRuntime`, `transport`,
+   * `respawn`, etc.) and `sharedService` are then ignored.
+   */
+  service?: InnertubeSupportDaemonEndpoint;
+}
+
+export interface InnertubeWrapperCreateOptions {
+  /**
+   * Aborts creation. The support service, if spawned, is stopped and the
+   * promise returned by `create()` rejects with `signal.reason`.
+   */
+  signal?: AbortSignal;
+}
+
+export interface SessionPoTokenStatus {
+  status: 'fresh' | 'stale' | 'unavailable';
+  identifierType: SessionIdentifier['type'] | null;
+  // Times (ms since epoch); `null` if unknown / not scheduled
+  expires: number | null;
+  nextRefresh: number | null;
+  // Consecutive failed refresh attempts
+  failedAttempts: number;
+  lastError: Error | null;
+}
+
+export interface InnertubeWrapperDiagnostics {
+  runtime: JsRuntime | null;
+  sandboxLevel: ServiceSandboxLevel | null;
+  transport: InnertubeSupportServiceTransport | null;
+  playerId: string | null;
+  sessionPoToken: SessionPoTokenStatus;
+  poTokenCache: PoTokenCacheStats;
+  // Wrapper-side memo
+  decipherCache: DecipherCacheStats;
+  service: InnertubeSupportServiceDiagnostics | null;
 }
 
-// Override player_id in Innertube initialization. Useful
-// when YT makes breaking changes and we temporary fix it by reverting
-// to a player_id known to be working previously.
-const PLAYER_ID = undefined;
+export type InnertubeWrapperEvent =
+  | 'serviceRestarting'
+  | 'serviceRestarted'
+  | 'serviceRestartFailed'
+  | 'minterRefreshFailed'
+  | 'playerSwitched'
+  | 'sessionPoTokenRefreshed'
+  | 'sessionPoTokenRefreshFailed'
+  | 'serviceStopped'
+  | 'accountChanged'
+  | 'disposed';
+export type InnertubeWrapperEventPayload<E extends InnertubeWrapperEvent> =
+  E extends 'serviceRestarting' ? { attempt: number; delay: number }
+  : E extends 'serviceRestarted' ? { attempt: number; runtime: JsRuntime }
+  : E extends 'serviceRestartFailed' ?
+    { attempt: number; error: Error; willRetry: boolean }
+  : E extends 'minterRefreshFailed' ?
+    {
+      attempt: number;
+      error: Error;
+      retryIn: number;
+      minterExpiresIn: number | null;
+    }
+  : E extends 'playerSwitched' ?
+    // `null` player ID: latest player
+    { from: string | null; to: string; error: Error }
+  : E extends 'sessionPoTokenRefreshed' ?
+    {
+      identifierType: SessionIdentifier['type'];
+      // Seconds
+      ttl: number;
+    }
+  : E extends 'sessionPoTokenRefreshFailed' ?
+    {
+      error: Error;
+      // Consecutive failed attempts, including this one
+      attempt: number;
+      // Time (ms) until next attempt
+      retryIn: number;
+      // Whether the previous token, still within TTL, continues to be used
+      usingPrevious: boolean;
+    }
+  : E extends 'serviceStopped' ?
+    // Emitted when the service stops unexpectedly
+    { willRespawn: boolean }
+  : E extends 'accountChanged' ?
+    {
+      signedIn: boolean;
+      identifierType: SessionIdentifier['type'] | null;
+    }
+  : E extends 'disposed' ? {}
+  : never;
+
+// Backoff for retrying failed session PO token refreshes (ms)
+const SESSION_PO_TOKEN_RETRY_INITIAL_DELAY = 5000;
+const SESSION_PO_TOKEN_RETRY_MAX_DELAY = 300000;
 
-export class InnertubeWrapper {
+export class InnertubeWrapper extends EventEmitter {
   #account?: AccountConfig = undefined;
   #locale: Locale = {};
-  #service: SpawnedInnertubeSupportService | null = null;
+  #supervisor:
+    | InnertubeSupportServiceSupervisor
+    | SharedServiceLease
+    | InnertubeSupportDaemonConnection
+    | null = null;
   #sessionIdentifer: SessionIdentifier | null = null;
-  #sessionPoToken: Promise<PoTokenData | null> | null = null;
+  // Last obtained; `data` is `null` if session identifier is unavailable
+  #sessionPoToken: {
+    data: PoTokenData | null;
+    // Times (ms since epoch)
+    expires: number;
+    refreshDue?: number;
+  } | null = null;
+  #sessionPoTokenPending: Promise<PoTokenData | null> | null = null;
+  #sessionPoTokenFailures = 0;
+  #sessionPoTokenError: Error | null = null;
   #poTokenRefreshTimer: NodeJS.Timeout | null = null;
+  // Time (ms since epoch) of next scheduled refresh / retry
+  #poTokenRefreshAt: number | null = null;
   #logger: Logger;
+  #decipherCache: DecipherCache;
+  #poTokenCache: PoTokenCache;
+  // `undefined`: latest player
+  #playerIds: (string | undefined)[] = [undefined];
+  #playerIdIndex = 0;
+  #playerSwitch: Promise<boolean> | null = null;
   #disposed = false;
   protected innertube: Innertube | null = null;
+  // `Platform.shim.eval` is process-wide. Calls made while a wrapper
+  // deciphers (see `#runWithEval()`) are served by that wrapper; others,
+  // e.g. through `getInnertube()`, by the most recently created wrapper
+  // that has not been disposed.
+  static #evalContext = new AsyncLocalStorage<InnertubeWrapper>();
+  static #evalWrappers = new Set<InnertubeWrapper>();
+  static #defaultEvalWrapper: InnertubeWrapper | null = null;
 
-  static async create(config?: InnertubeWrapperConfig) {
+  static async create(
+    config?: InnertubeWrapperConfig,
+    options?: InnertubeWrapperCreateOptions
+  ) {
     const instance = new InnertubeWrapper();
-    await instance.#init(config);
+    try {
+      await instance.#init(config, options?.signal);
+    } catch (error: unknown) {
+      // Do not leave service running
+      await instance.dispose();
+      throw error;
+    }
     return instance;
   }
 
-  async #init(config?: InnertubeWrapperConfig) {
+  async #init(config?: InnertubeWrapperConfig, signal?: AbortSignal) {
     this.#account = config?.account;
     this.#locale = config?.locale || {};
     this.#logger = config?.logger || new DefaultLogger();
+    this.#decipherCache = new DecipherCache(config?.decipherCacheSize);
+    this.#poTokenCache = new PoTokenCache(config?.poTokenCacheSize);
+    this.#playerIds = [
+      ...new Set([config?.playerId, ...(config?.fallbackPlayerIds ?? [])])
+    ];
 
     // 1. Create Innertube instance
-    const innertube = (this.innertube = await Innertube.create({
-      cookie: this.#account?.cookie,
-      player_id: PLAYER_ID
-    }));
+    const innertube = (this.innertube = await abortable<Innertube>(
+      this.#createInnertube(),
+      signal
+    ));
     this.#applyLocale();
 
-    // 2. Get attestationChallenge (for bgutils) and spawn server with it
-    const challengeResponse = await innertube.getAttestationChallenge(
-      'ENGAGEMENT_TYPE_UNBOUND'
-    );
-    const service = (this.#service = await spawnInnertubeSupportService({
+    // 2. Spawn server with attestationChallenge (for bgutils). The supervisor
+    // obtains a fresh challenge each time it (re)spawns the service.
+    const serviceConfig: SharedServiceConfig = {
       jsRuntime: config?.jsRuntime,
-      challengeResponse,
+      runtimePaths: config?.runtimePaths,
+      respawn: config?.respawn,
+      options: {
+        transport: config?.transport,
+        decipherCacheSize: config?.decipherCacheSize,
+        evalLimits: config?.evalLimits
+      },
+      denoPermissions: config?.denoPermissions,
+      startTimeout: config?.serviceStartTimeout
+    };
+    const leaseConfig: SharedServiceLeaseConfig = {
+      // Innertube instance changes when switching player
+      getChallengeResponse: () =>
+        this.getInnertube().getAttestationChallenge('ENGAGEMENT_TYPE_UNBOUND'),
       callbacks: {
-        onStdOut: (data) => {
-          this.#logger.info(`Innertube support service: ${data.toString()}`);
+        onRestarting: ({ attempt, delay }) => {
+          this.#logger.info(
+            `Respawning Innertube support service in ${delay}ms (attempt #${attempt})`
+          );
+          this.emit('serviceRestarting', { attempt, delay });
+        },
+        onRestarted: ({ attempt, service }) => {
+          this.#logger.info(
+            `Innertube support service respawned (attempt #${attempt})`
+          );
+          this.emit('serviceRestarted', {
+            attempt,
+            runtime: service.runtime
+          });
+          void this.#handleServiceRestarted();
+        },
+        onStopped: ({ willRespawn }) => {
+          this.emit('serviceStopped', { willRespawn });
         },
-        onStdErr: (data) => {
-          this.#logger.error(`Innertube support service: ${data.toString()}`);
+        onRestartFailed: ({ attempt, error, willRetry }) => {
+          this.emit('serviceRestartFailed', { attempt, error, willRetry });
         },
-        onStop: () => {
-          this.#logger.info(`Innertube support service: Stopped`);
-          this.#service = null;
+        onMinterRefreshFailed: ({ error, ...failure }) => {
+          this.#logger.warn(
+            `Innertube support service failed to refresh PO token minter (attempt #${failure.attempt}, retrying in ${failure.retryIn}ms): ${error}`
+          );
+          this.emit('minterRefreshFailed', {
+            ...failure,
+            error: Error(error)
+          });
+        },
+        onMinterRotated: () => {
+          this.#poTokenCache.clear();
+        }
+      },
+      logger: this.#logger
+    };
+    const supervisor = (this.#supervisor =
+      config?.service ? new InnertubeSupportDaemonConnection(config.service)
+      : config?.sharedService ?
+        new SharedServiceLease(serviceConfig, leaseConfig)
+      : new InnertubeSupportServiceSupervisor({
+          ...serviceConfig,
+          ...leaseConfig
+        }));
+    const service = await supervisor.start(signal);
+    this.#logger.info(
+      `Innertube support service running (${describeServiceEndpoint(service)})`
+    );
+    InnertubeWrapper.#evalWrappers.add(this);
+    InnertubeWrapper.#defaultEvalWrapper = this;
+    Platform.shim.eval = InnertubeWrapper.#evalShim;
+
+    // 3. Generate session PO token
+    this.#sessionIdentifer = await abortable(
+      this.#getSessionIdentifier(innertube),
+      signal
+    );
+    await abortable(this.getSessionPoToken(), signal);
+    this.#applySessionIdentifier();
+
+    // 4. Self-test
+    if (config?.selfTest) {
+      const report = await abortable(this.checkHealth(), signal);
+      if (!report.ok) {
+        const error = new HealthCheckError(report);
+        if (config.selfTest === 'throw') {
+          throw error;
         }
+        this.#logger.warn(error.message);
       }
-    }));
-    if (service.status === 'started') {
-      this.#logger.info(
-        `Innertube support service running at http://${service.server.address}:${service.server.port}`
-      );
-    } else {
-      throw Error(`Failed to start Innertube support service`);
     }
-    Platform.shim.eval = (data, env) => this.#eval(data, env);
+  }
 
-    // 3. Generate session PO token
-    this.#sessionIdentifer = await this.#getSessionIdentifier(innertube);
-    await this.getSessionPoToken();
+  /**
+   * Deciphers a sample stream URL through the support service, mints a
+   * test PO token and reports the results along with the state of the
+   * service and session.
+   */
+  async checkHealth(): Promise<HealthReport> {
+    const innertube = this.getInnertube();
+    const service = await this.#getService();
+    const [minter, decipher, poToken] = await Promise.all([
+      runHealthCheck(async () => {
+        const info = (await service.client.stats()).minter;
+        if (!info) {
+          throw Error('No minter created');
+        }
+        return { age: Date.now() - info.created, ttl: info.ttl };
+      }),
+      this.#runWithEval(() => checkDecipher(innertube.session.player)),
+      runHealthCheck(async () => {
+        const { ttl } = await this.#mintPoToken(
+          HEALTH_CHECK_PO_TOKEN_IDENTIFIER
+        );
+        return { ttl };
+      })
+    ]);
+    return {
+      ok: minter.ok && decipher.ok && poToken.ok,
+      checked: Date.now(),
+      runtime: service.runtime,
+      sandboxLevel: service.sandboxLevel,
+      playerId: innertube.session.player?.player_id ?? null,
+      sessionIdentifierType: this.#sessionIdentifer?.type ?? null,
+      minter,
+      decipher,
+      poToken
+    };
+  }
+
+  get #playerId() {
+    return this.#playerIds[this.#playerIdIndex];
+  }
+
+  /**
+   * Creates Innertube instance with the current player ID. If the player
+   * cannot be fetched or its decipher functions extracted, tries the next
+   * ones in the fallback list. Other errors (e.g. network failure, invalid
+   * cookie) are thrown as they would affect any player.
+   */
+  async #createInnertube() {
+    for (;;) {
+      try {
+        return await Innertube.create({
+          cookie: this.#account?.cookie,
+          player_id: this.#playerId
+        });
+      } catch (error: unknown) {
+        if (
+          !(error instanceof Utils.PlayerError) ||
+          this.#playerIdIndex >= this.#playerIds.length - 1
+        ) {
+          throw error;
+        }
+        this.#logger.warn(
+          getErrorMessage(
+            `Failed to create Innertube instance with player ${this.#playerId ?? '(latest)'} - trying ${this.#playerIds[this.#playerIdIndex + 1]}:`,
+            error,
+            false
+          )
+        );
+        this.#playerIdIndex++;
+      }
+    }
+  }
 
-    if (this.#sessionIdentifer?.pageId) {
+  #applySessionIdentifier() {
+    if (this.innertube && this.#sessionIdentifer?.pageId) {
       this.innertube.session.context.user.onBehalfOfUser =
         this.#sessionIdentifer.pageId;
     }
   }
 
-  getSessionPoToken() {
-    return this.#doGetSessionPoToken();
+  /**
+   * Re-creates the Innertube session against the player ID following the
+   * one at `fromIndex` in the fallback list. Returns `false` if there is
+   * none left. Concurrent calls share a single switch.
+   */
+  async #switchPlayer(fromIndex: number, error: Error) {
+    if (this.#playerSwitch) {
+      return this.#playerSwitch;
+    }
+    if (fromIndex !== this.#playerIdIndex) {
+      // Already switched
+      return true;
+    }
+    this.#playerSwitch = this.#doSwitchPlayer(error).finally(() => {
+      this.#playerSwitch = null;
+    });
+    return this.#playerSwitch;
+  }
+
+  async #doSwitchPlayer(error: Error) {
+    if (this.#playerIdIndex >= this.#playerIds.length - 1) {
+      return false;
+    }
+    const from = this.#playerId ?? null;
+    const toIndex = this.#playerIdIndex + 1;
+    this.#logger.warn(
+      `Deciphering failed with player ${from ?? '(latest)'} - switching to ${this.#playerIds[toIndex]}: ${error.message}`
+    );
+    const innertube = await this.#recreateSession(toIndex);
+    if (!innertube) {
+      return false;
+    }
+    this.emit('playerSwitched', {
+      from,
+      to: innertube.session.player?.player_id ?? String(this.#playerId),
+      error
+    });
+    return true;
   }
 
-  async #doGetSessionPoToken(isRefresh = false): Promise<PoTokenData | null> {
-    if (!this.#sessionPoToken || isRefresh) {
-      this.#clearPoTokenRefreshTimer();
-      if (isRefresh) {
-        this.#logger.info('Refresh session PO token');
-      }
-      this.#sessionPoToken = this.#generateSessionPoToken();
-      const pot = await this.#sessionPoToken;
-      if (pot) {
-        const { ttl, refreshThreshold } = pot;
-        if (ttl) {
-          let timeout = ttl - refreshThreshold;
-          if (timeout < 0) {
-            timeout = 120;
-          }
-          this.#logger.info(
-            `Going to refresh session PO token in ${timeout} seconds`
-          );
-          this.#poTokenRefreshTimer = setTimeout(() => {
-            this.#sessionPoToken = this.#doGetSessionPoToken(true);
-          }, timeout * 1000);
+  /**
+   * Replaces the Innertube instance with a new one, created with current
+   * account and the player ID at `playerIdIndex` in the fallback list. By
+   * default, the preferred player is tried again. Returns `null` if disposed
+   * in the meantime.
+   */
+  async #recreateSession(playerIdIndex = 0) {
+    this.#playerIdIndex = playerIdIndex;
+    const innertube = await this.#createInnertube();
+    if (this.#disposed) {
+      return null;
+    }
+    this.innertube = innertube;
+    this.#applyLocale();
+    // New session comes with new visitorData, to which session PO token
+    // is bound
+    this.#sessionIdentifer = await this.#getSessionIdentifier(innertube);
+    this.#applySessionIdentifier();
+    // Token of previous session must not be used
+    this.#sessionPoToken = null;
+    this.#sessionPoTokenPending = null;
+    await this.#refreshSessionPoToken(true);
+    return innertube;
+  }
+
+  /**
+   * Signs in with `account`, or signs out if `account` has no cookie.
+   * The Innertube session is re-created, so objects obtained through the
+   * previous instance should be discarded.
+   */
+  async setAccount(account?: AccountConfig) {
+    this.#assertReady();
+    this.#account = account;
+    if (!(await this.#recreateSession())) {
+      return;
+    }
+    this.emit('accountChanged', {
+      signedIn: !!account?.cookie,
+      identifierType: this.#sessionIdentifer?.type ?? null
+    });
+  }
+
+  async #handleServiceRestarted() {
+    // Minter in the respawned service is new - discard PO tokens minted
+    // previously and re-mint session PO token from it.
+    this.#poTokenCache.clear();
+    if (this.#disposed || !this.#sessionPoToken) {
+      return;
+    }
+    try {
+      await this.#refreshSessionPoToken(true);
+    } catch (error) {
+      this.#logger.error(
+        getErrorMessage(
+          'Failed to obtain session PO token from respawned service:',
+          error,
+          false
+        )
+      );
+    }
+  }
+
+  /**
+   * Returns the current session PO token. If refreshing it has failed, the
+   * previous token is returned for as long as it remains within its TTL
+   * (with `ttl` adjusted for time elapsed). Otherwise, a new token is
+   * minted.
+   */
+  async getSessionPoToken(): Promise<PoTokenData | null> {
+    const current = this.#sessionPoToken;
+    if (current && !current.data) {
+      // Session identifier unavailable
+      return null;
+    }
+    const valid = this.#getValidSessionPoToken();
+    if (valid) {
+      return valid;
+    }
+    return this.#refreshSessionPoToken(!!current);
+  }
+
+  #getValidSessionPoToken(): PoTokenData | null {
+    const data = this.#sessionPoToken?.data;
+    if (!data?.ttl) {
+      return data ?? null;
+    }
+    const remaining = this.#sessionPoToken!.expires - Date.now();
+    if (remaining <= 0) {
+      return null;
+    }
+    return { ...data, ttl: Math.floor(remaining / 1000) };
+  }
+
+  /**
+   * Reports whether the session PO token is:
+   * - 'fresh': obtained and not yet due for refresh;
+   * - 'stale': due for refresh (e.g. refreshing failed) but still within TTL;
+   * - 'unavailable': not obtained, or expired.
+   */
+  getSessionPoTokenStatus(): SessionPoTokenStatus {
+    const current = this.#sessionPoToken;
+    const valid = this.#getValidSessionPoToken();
+    const status =
+      !valid ? 'unavailable'
+      : current?.refreshDue !== undefined && Date.now() >= current.refreshDue ?
+        'stale'
+      : 'fresh';
+    return {
+      status,
+      identifierType: this.#sessionIdentifer?.type ?? null,
+      expires: current?.data?.ttl ? current.expires : null,
+      nextRefresh: this.#poTokenRefreshAt,
+      failedAttempts: this.#sessionPoTokenFailures,
+      lastError: this.#sessionPoTokenError
+    };
+  }
+
+  // Coalesces concurrent requests
+  #refreshSessionPoToken(isRefresh = false) {
+    if (!this.#sessionPoTokenPending) {
+      const pending = this.#doRefreshSessionPoToken(isRefresh).finally(() => {
+        if (this.#sessionPoTokenPending === pending) {
+          this.#sessionPoTokenPending = null;
         }
+      });
+      this.#sessionPoTokenPending = pending;
+    }
+    return this.#sessionPoTokenPending;
+  }
+
+  async #doRefreshSessionPoToken(isRefresh: boolean) {
+    this.#clearPoTokenRefreshTimer();
+    if (isRefresh) {
+      this.#logger.info('Refresh session PO token');
+    }
+    const identifier = this.#sessionIdentifer;
+    let pot: PoTokenData | null;
+    try {
+      pot = await this.#generateSessionPoToken();
+    } catch (error: unknown) {
+      const err = error instanceof Error ? error : Error(String(error));
+      if (this.#disposed || identifier !== this.#sessionIdentifer) {
+        throw err;
       }
+      return this.#handleSessionPoTokenFailure(err);
+    }
+    if (this.#disposed || identifier !== this.#sessionIdentifer) {
+      // Session re-created in the meantime - token is for previous one
+      return pot;
+    }
+    this.#sessionPoTokenFailures = 0;
+    this.#sessionPoTokenError = null;
+    if (!pot) {
+      this.#sessionPoToken = { data: null, expires: 0 };
+      return null;
+    }
+    const { ttl, refreshThreshold } = pot;
+    let timeout = ttl - refreshThreshold;
+    if (timeout < 0) {
+      timeout = 120;
+    }
+    this.#sessionPoToken = {
+      data: pot,
+      expires: Date.now() + ttl * 1000,
+      refreshDue: ttl ? Date.now() + timeout * 1000 : undefined
+    };
+    if (isRefresh && identifier) {
+      this.emit('sessionPoTokenRefreshed', {
+        identifierType: identifier.type,
+        ttl
+      });
+    }
+    if (ttl) {
+      this.#logger.info(
+        `Going to refresh session PO token in ${timeout} seconds`
+      );
+      this.#schedulePoTokenRefresh(timeout * 1000);
+    }
+    return pot;
+  }
+
+  /**
+   * Schedules a retry with exponential backoff. Returns the previous token
+   * if it is still within TTL, otherwise throws `error`.
+   */
+  #handleSessionPoTokenFailure(error: Error) {
+    const attempt = ++this.#sessionPoTokenFailures;
+    this.#sessionPoTokenError = error;
+    const retryIn = Math.min(
+      SESSION_PO_TOKEN_RETRY_INITIAL_DELAY * 2 ** (attempt - 1),
+      SESSION_PO_TOKEN_RETRY_MAX_DELAY
+    );
+    const previous = this.#getValidSessionPoToken();
+    this.#logger.warn(
+      getErrorMessage(
+        `Failed to obtain session PO token (attempt #${attempt}) - retrying in ${retryIn}ms${previous ? ', using previous token meanwhile' : ''}:`,
+        error,
+        false
+      )
+    );
+    this.emit('sessionPoTokenRefreshFailed', {
+      error,
+      attempt,
+      retryIn,
+      usingPrevious: !!previous
+    });
+    this.#schedulePoTokenRefresh(retryIn);
+    if (previous) {
+      return previous;
     }
-    return this.#sessionPoToken;
+    throw error;
+  }
+
+  #schedulePoTokenRefresh(delay: number) {
+    this.#clearPoTokenRefreshTimer();
+    this.#poTokenRefreshTimer = setTimeout(() => {
+      this.#poTokenRefreshTimer = null;
+      this.#poTokenRefreshAt = null;
+      // Failure is reported through 'sessionPoTokenRefreshFailed'
+      this.#refreshSessionPoToken(true).catch(() => null);
+    }, delay);
+    this.#poTokenRefreshAt = Date.now() + delay;
   }
 
+  /**
+   * Returns a PO token bound to `identifier` (e.g. video ID). Tokens are
+   * cached until due for refresh, or until the minter is replaced. Not
+   * cached when attached to a daemon.
+   */
   async generatePoToken(identifier: string): Promise<PoTokenData> {
     this.#assertReady();
-    if (!this.#service || this.#service.status === 'stopped') {
-      throw Error('Innertube support service not started');
+    // Daemon does not notify when it replaces its minter, so cached tokens
+    // could outlive the minter that produced them
+    if (this.#supervisor instanceof InnertubeSupportDaemonConnection) {
+      return this.#mintPoToken(identifier);
     }
-    const url = new URL(
-      `http://${this.#service.server.address}:${this.#service.server.port}/pot`
-    );
-    url.searchParams.set('identifier', identifier);
-    const result = (await (await fetch(url)).json()) as PotFnResult;
-    if (result.ok) {
-      return {
-        poToken: result.poToken,
-        refreshThreshold: result.refreshThreshold,
-        ttl: result.ttl
+    return this.#poTokenCache.get(identifier, (id) => this.#mintPoToken(id));
+  }
+
+  async #mintPoToken(identifier: string) {
+    const service = await this.#getService();
+    return service.client.pot(identifier);
+  }
+
+  /**
+   * Options for `Innertube.getBasicInfo()` using `client`, carrying the
+   * session PO token if the client needs it (see `CLIENT_PROFILES`).
+   */
+  async getBasicInfoOptions(client: ClientProfileName) {
+    const profile = CLIENT_PROFILES[client];
+    const sessionPoToken =
+      profile.sessionPoToken ?
+        (await this.getSessionPoToken())?.poToken
+      : undefined;
+    return getBasicInfoOptions(profile, sessionPoToken);
+  }
+
+  /**
+   * Fetches basic info of `videoId`, trying `clients` in order until one
+   * finds the video playable. Throws `VideoUnplayableError` if none does.
+   */
+  async getPlayableBasicInfo(
+    videoId: string,
+    clients:
+      ClientProfileName | ClientProfileName[] = DEFAULT_CLIENT_FALLBACK_ORDER
+  ) {
+    const innertube = this.getInnertube();
+    const candidates = Array.isArray(clients) ? clients : [clients];
+    const failures: PlayabilityFailure[] = [];
+    for (const [i, client] of candidates.entries()) {
+      const info = await innertube.getBasicInfo(
+        videoId,
+        await this.getBasicInfoOptions(client)
+      );
+      const { status, reason } = info.playability_status ?? {};
+      if (status === 'OK') {
+        return { info, profile: CLIENT_PROFILES[client] };
+      }
+      const failure: PlayabilityFailure = {
+        client,
+        status: String(status || 'UNKNOWN'),
+        reason: reason ? String(reason) : null
       };
+      failures.push(failure);
+      if (i < candidates.length - 1) {
+        this.#logger.warn(
+          `Video "${videoId}" not playable with ${client} client (${failure.status}) - trying ${candidates[i + 1]}`
+        );
+      }
+    }
+    throw new VideoUnplayableError(videoId, failures);
+  }
+
+  /**
+   * Resolves a playable URL of `videoId`, with the content-bound PO token
+   * applied if required, along with metadata of the format chosen according
+   * to `options`. If deciphering fails, the Innertube session is re-created
+   * against the next player ID in the fallback list (if any) and resolving
+   * is retried.
+   */
+  async resolveStream(
+    videoId: string,
+    options: ResolveStreamOptions = {}
+  ): Promise<ResolvedStream> {
+    const playerIdIndex = this.#playerIdIndex;
+    try {
+      return await this.#doResolveStream(videoId, options);
+    } catch (error: unknown) {
+      if (
+        error instanceof StreamDecipherError &&
+        (await this.#switchPlayer(playerIdIndex, error))
+      ) {
+        return this.resolveStream(videoId, options);
+      }
+      throw error;
+    }
+  }
+
+  async #doResolveStream(
+    videoId: string,
+    options: ResolveStreamOptions
+  ): Promise<ResolvedStream> {
+    const innertube = this.getInnertube();
+    const { client, ...preferences } = options;
+    const { info, profile } = await this.getPlayableBasicInfo(videoId, client);
+    const format = chooseStreamFormat(
+      [
+        ...(info.streaming_data?.formats ?? []),
+        ...(info.streaming_data?.adaptive_formats ?? [])
+      ],
+      preferences
+    );
+    if (!format) {
+      throw new NoMatchingStreamFormatError(videoId, preferences);
+    }
+    let url: string | undefined =
+      profile.decipher ?
+        await this.#runWithEval(() =>
+          decipherStreamUrl(format, innertube.session.player)
+        )
+      : format.url;
+    if (!url) {
+      throw Error(`Format ${format.itag} of video "${videoId}" has no URL`);
+    }
+    if (profile.contentPoToken) {
+      url = setStreamUrlPoToken(
+        url,
+        (await this.generatePoToken(videoId)).poToken
+      );
+    }
+    const duration =
+      info.basic_info.duration ||
+      (format.approx_duration_ms ? format.approx_duration_ms / 1000 : null);
+    return {
+      videoId,
+      url,
+      client: profile.client,
+      format: getResolvedStreamFormat(format),
+      duration,
+      expires: getStreamUrlExpiry(url)
+    };
+  }
+
+  // Routes `Platform.shim.eval` calls made within `fn` to this wrapper
+  #runWithEval<T>(fn: () => Promise<T>) {
+    return InnertubeWrapper.#evalContext.run(this, fn);
+  }
+
+  static #evalShim(
+    ...args: Parameters<typeof Platform.shim.eval>
+  ): Promise<EvalFnResult> {
+    const wrapper =
+      InnertubeWrapper.#evalContext.getStore() ??
+      InnertubeWrapper.#defaultEvalWrapper;
+    if (!wrapper) {
+      return Promise.reject(
+        Error('No Innertube wrapper available to evaluate script')
+      );
     }
-    throw Error(result.error);
+    return wrapper.#eval(...args);
   }
 
   async #eval(
     ...args: Parameters<typeof Platform.shim.eval>
   ): Promise<EvalFnResult> {
+    const [data, env] = args;
+    const service = await this.#getService();
+    // Same input deciphers differently with each player's script
+    const scope = hashScript(data);
+    const memoized = this.#decipherCache.get(scope, env);
+    if (memoized) {
+      return memoized.value;
+    }
+    const result = await service.client.eval(data, env);
+    this.#decipherCache.set(scope, env, result);
+    return result;
+  }
+
+  /**
+   * State of the wrapper merged with that reported by the support service,
+   * e.g. for display on a plugin's settings page. `service` is `null` if
+   * the service could not be queried.
+   */
+  async getDiagnostics(): Promise<InnertubeWrapperDiagnostics> {
+    let service: InnertubeSupportServiceDiagnostics | null = null;
+    try {
+      service = await (await this.#getService()).client.status();
+    } catch (error) {
+      this.#logger.warn(
+        getErrorMessage(
+          'Failed to get diagnostics from Innertube support service:',
+          error,
+          false
+        )
+      );
+    }
+    const spawned = this.#supervisor?.service;
+    return {
+      runtime: spawned?.runtime ?? null,
+      sandboxLevel: spawned?.sandboxLevel ?? null,
+      transport: spawned?.status === 'started' ? spawned.transport : null,
+      playerId: this.playerId ?? null,
+      sessionPoToken: this.getSessionPoTokenStatus(),
+      poTokenCache: this.#poTokenCache.getStats(),
+      decipherCache: this.#decipherCache.getStats(),
+      service
+    };
+  }
+
+  /**
+   * Hit / miss counters of the decipher result memos kept by the wrapper
+   * and the support service. `service` is `null` if the service
+   * could not be queried.
+   */
+  async getDecipherCacheStats() {
+    let service: DecipherCacheStats | null = null;
+    try {
+      service = (await (await this.#getService()).client.stats()).decipherCache;
+    } catch (error) {
+      this.#logger.warn(
+        getErrorMessage(
+          'Failed to get decipher cache stats from Innertube support service:',
+          error,
+          false
+        )
+      );
+    }
+    return {
+      wrapper: this.#decipherCache.getStats(),
+      service
+    };
+  }
+
+  getPoTokenCacheStats() {
+    return this.#poTokenCache.getStats();
+  }
+
+  async #getService() {
     this.#assertReady();
-    if (!this.#service || this.#service.status === 'stopped') {
+    if (!this.#supervisor) {
       throw Error('Innertube support service not started');
     }
-    const url = `http://${this.#service.server.address}:${this.#service.server.port}/eval`;
-    const [data, env] = args;
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        data,
-        env
-      })
-    });
-    return await res.json();
+    return this.#supervisor.getService();
   }
 
   async #generateSessionPoToken(): Promise<PoTokenData | null> {
     const identifier = this.#sessionIdentifer;
     if (identifier) {
-      const poTokenResult = await this.generatePoToken(identifier.value);
+      // Bypass cache - caller wants a fresh token
+      const poTokenResult = await this.#mintPoToken(identifier.value);
       this.#logger.info(
         `Obtained session PO token using ${identifier.type} (expires in ${poTokenResult.ttl} seconds)`
       );
@@ -246,13 +1065,20 @@ export class InnertubeWrapper {
     }
     this.#clearPoTokenRefreshTimer();
     this.#disposed = true;
+    InnertubeWrapper.#evalWrappers.delete(this);
+    if (InnertubeWrapper.#defaultEvalWrapper === this) {
+      InnertubeWrapper.#defaultEvalWrapper =
+        [...InnertubeWrapper.#evalWrappers].pop() ?? null;
+    }
     this.#sessionIdentifer = null;
     this.#sessionPoToken = null;
+    this.#sessionPoTokenPending = null;
     this.innertube = null;
-    if (this.#service) {
-      await this.#service.stop();
-      this.#service = null;
+    if (this.#supervisor) {
+      await this.#supervisor.stop();
+      this.#supervisor = null;
     }
+    this.emit('disposed', {});
   }
 
   #clearPoTokenRefreshTimer() {
@@ -260,6 +1086,7 @@ export class InnertubeWrapper {
       clearTimeout(this.#poTokenRefreshTimer);
       this.#poTokenRefreshTimer = null;
     }
+    this.#poTokenRefreshAt = null;
   }
 
   #applyLocale() {
@@ -292,7 +1119,52 @@ export class InnertubeWrapper {
     return true;
   }
 
+  // ID of the player the current Innertube session uses
+  get playerId() {
+    return this.innertube?.session.player?.player_id;
+  }
+
   get serviceRuntime() {
-    return this.#service ? this.#service.runtime : undefined;
+    return this.#supervisor?.service?.runtime;
+  }
+
+  /**
+   * How strongly the support service is isolated from the system. See
+   * `ServiceSandboxLevel`.
+   */
+  get serviceSandboxLevel() {
+    return this.#supervisor?.service?.sandboxLevel;
+  }
+
+  emit<E extends InnertubeWrapperEvent>(
+    eventName: E,
+    args: InnertubeWrapperEventPayload<E>
+  ): boolean;
+  emit(eventName: string | symbol, ...args: any[]): boolean {
+    return super.emit(eventName, ...args);
+  }
+
+  on<E extends InnertubeWrapperEvent>(
+    eventName: E,
+    listener: (args: InnertubeWrapperEventPayload<E>) => void
+  ): this;
+  on(eventName: string | symbol, listener: (...args: any[]) => void): this {
+    return super.on(eventName, listener);
+  }
+
+  once<E extends InnertubeWrapperEvent>(
+    eventName: E,
+    listener: (args: InnertubeWrapperEventPayload<E>) => void
+  ): this;
+  once(eventName: string | symbol, listener: (...args: any[]) => void): this {
+    return super.once(eventName, listener);
+  }
+
+  off<E extends InnertubeWrapperEvent>(
+    eventName: E,
+    listener: (args: InnertubeWrapperEventPayload<E>) => void
+  ): this;
+  off(eventName: string | symbol, listener: (...args: any[]) => void): this {
+    return super.off(eventName, listener);
   }
 }
@@ -0,0 +1,25 @@
+/**
+ * Settles with `promise`, or rejects with `signal.reason` if `signal` is
+ * aborted first. Note `promise` itself is not cancelled.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal) {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(getAbortReason(signal));
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(getAbortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+export function getAbortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ?
+      signal.reason
+    : Error(String(signal.reason ?? 'Aborted'));
+}
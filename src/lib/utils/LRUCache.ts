@@ -0,0 +1,57 @@
+/**
+ * Map-backed LRU cache. Relies on Map preserving insertion order:
+ * the first key is the least recently used.
+ */
+export class LRUCache<K, V> {
+  #maxSize: number;
+  #map: Map<K, V>;
+
+  constructor(maxSize: number) {
+    if (maxSize < 1) {
+      throw Error('LRUCache maxSize must be at least 1');
+    }
+    this.#maxSize = maxSize;
+    this.#map = new Map();
+  }
+
+  get(key: K): V | undefined {
+    if (!this.#map.has(key)) {
+      return undefined;
+    }
+    const value = this.#map.get(key) as V;
+    // Move to most recently used
+    this.#map.delete(key);
+    this.#map.set(key, value);
+    return value;
+  }
+
+  has(key: K) {
+    return this.#map.has(key);
+  }
+
+  set(key: K, value: V) {
+    this.#map.delete(key);
+    this.#map.set(key, value);
+    while (this.#map.size > this.#maxSize) {
+      const oldest = this.#map.keys().next().value as K;
+      this.#map.delete(oldest);
+    }
+    return this;
+  }
+
+  delete(key: K) {
+    return this.#map.delete(key);
+  }
+
+  keys() {
+    return this.#map.keys();
+  }
+
+  clear() {
+    this.#map.clear();
+  }
+
+  get size() {
+    return this.#map.size;
+  }
+}
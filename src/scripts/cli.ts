@@ -0,0 +1,349 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import { parseArgs } from 'util';
+import Innertube from 'volumio-youtubei.js';
+import {
+  CLIENT_PROFILES,
+  type ClientProfileName
+} from '../lib/innertube/ClientProfile';
+import { type HealthCheckResult } from '../lib/innertube/Health';
+import {
+  detectJsRuntimes,
+  JS_RUNTIME_PREFERENCE,
+  type JsRuntimeOption
+} from '../lib/innertube/Runtime';
+import { type StreamType } from '../lib/innertube/Stream';
+import {
+  InnertubeWrapper,
+  type InnertubeWrapperConfig
+} from '../lib/innertube/Wrapper';
+import { getErrorMessage, type Logger } from '../lib/utils/Logger';
+
+const USAGE = `Usage: volumio-yt-support <command> [options]
+
+Commands:
+  doctor               Detect JS runtimes and run health checks
+  pot <identifier>     Mint a PO token for <identifier>
+  session-pot          Mint a PO token bound to the session
+  resolve <videoId>    Print the playable stream URL of a video
+  accounts             List channels of the account signed in with
+                       --cookie-file
+
+Options:
+  --json               Print results as JSON
+  --cookie-file <file> Sign in with the cookie stored in <file>
+  --channel <handle>   Handle of the channel to use, if the account has several
+  --runtime <runtime>  JS runtime of the support service: deno, node, bun or
+                       auto (default)
+  --service <url>      Attach to the support service daemon at <url>
+                       instead of spawning one
+  --secret-file <file> File containing the secret of the daemon given by
+                       --service
+  --type <type>        (resolve) audio (default), video or video+audio
+  --client <client>    (resolve) Innertube client: ${Object.keys(CLIENT_PROFILES).join(', ')}
+  --verbose            Log progress to stderr
+  -h, --help           Show this help
+`;
+
+const STREAM_TYPES: StreamType[] = ['audio', 'video', 'video+audio'];
+
+type Options = ReturnType<typeof getOptions>['values'];
+
+interface CommandResult {
+  // Printed with --json
+  json: unknown;
+  // Printed otherwise
+  text: string;
+  // Default: 0
+  exitCode?: number;
+}
+
+interface AccountInfo {
+  name: string;
+  handle: string;
+  selected: boolean;
+  disabled: boolean;
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+function getOptions() {
+  return parseArgs({
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean' },
+      'cookie-file': { type: 'string' },
+      channel: { type: 'string' },
+      runtime: { type: 'string' },
+      service: { type: 'string' },
+      'secret-file': { type: 'string' },
+      type: { type: 'string' },
+      client: { type: 'string' },
+      verbose: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+}
+
+// Credentials are read from files, since args are visible to other users
+function readCredentialFile(file: string) {
+  return fs.readFileSync(file, 'utf-8').trim();
+}
+
+function getCookie(options: Options) {
+  const file = options['cookie-file'];
+  return file ? readCredentialFile(file) : undefined;
+}
+
+function getJsRuntime(options: Options): JsRuntimeOption | undefined {
+  const { runtime } = options;
+  if (
+    runtime &&
+    runtime !== 'auto' &&
+    !(JS_RUNTIME_PREFERENCE as string[]).includes(runtime)
+  ) {
+    throw new UsageError(`Unknown runtime "${runtime}"`);
+  }
+  return runtime as JsRuntimeOption | undefined;
+}
+
+function getWrapperConfig(options: Options): InnertubeWrapperConfig {
+  const logger: Logger = {
+    // Logs go to stderr, leaving stdout to results
+    info: (msg) => {
+      if (options.verbose) {
+        console.error(msg);
+      }
+    },
+    warn: (msg) => console.error(msg),
+    error: (msg) => console.error(msg)
+  };
+  if (options.service && !options['secret-file']) {
+    throw new UsageError('--service requires --secret-file');
+  }
+  const cookie = getCookie(options);
+  return {
+    account:
+      cookie ? { cookie, activeChannelHandle: options.channel } : undefined,
+    jsRuntime: getJsRuntime(options),
+    service:
+      options.service && options['secret-file'] ?
+        {
+          url: options.service,
+          secret: readCredentialFile(options['secret-file'])
+        }
+      : undefined,
+    logger
+  };
+}
+
+async function withWrapper<T>(
+  options: Options,
+  fn: (wrapper: InnertubeWrapper) => Promise<T>
+) {
+  const wrapper = await InnertubeWrapper.create(getWrapperConfig(options));
+  try {
+    return await fn(wrapper);
+  } finally {
+    await wrapper.dispose();
+  }
+}
+
+function describeCheck(result: HealthCheckResult, details?: string) {
+  if (!result.ok) {
+    return `FAILED (${result.error})`;
+  }
+  return details ? `ok (${details})` : 'ok';
+}
+
+// `Error` objects do not survive `JSON.stringify()`
+function getRuntimesJson(
+  runtimes: Awaited<ReturnType<typeof detectJsRuntimes>>
+) {
+  return runtimes.map(({ runtime, status }) => ({
+    runtime,
+    status:
+      status.installed ? status : { ...status, error: status.error.message }
+  }));
+}
+
+async function doctor(options: Options): Promise<CommandResult> {
+  const runtimes = await detectJsRuntimes();
+  const lines = ['JS runtimes:'];
+  for (const { runtime, status } of runtimes) {
+    lines.push(
+      `  ${runtime}: ${status.installed ? status.version : status.error.message}`
+    );
+  }
+  let report;
+  try {
+    report = await withWrapper(options, (wrapper) => wrapper.checkHealth());
+  } catch (error: unknown) {
+    lines.push(getErrorMessage('Failed to start:', error, false));
+    return {
+      json: {
+        ok: false,
+        runtimes: getRuntimesJson(runtimes),
+        error: getErrorMessage('', error, false)
+      },
+      text: lines.join('\n'),
+      exitCode: 1
+    };
+  }
+  const { minter, decipher, poToken } = report;
+  lines.push(
+    `Support service: ${report.runtime ?? 'unknown runtime'} (sandbox level: ${report.sandboxLevel ?? 'unknown'})`,
+    `Player: ${report.playerId ?? 'unknown'}`,
+    `Session identifier: ${report.sessionIdentifierType ?? 'unavailable'}`,
+    `Minter: ${describeCheck(minter, minter.ok ? `age ${Math.round(minter.age / 1000)}s, TTL ${minter.ttl}s` : undefined)}`,
+    `Decipher: ${describeCheck(decipher)}`,
+    `PO token: ${describeCheck(poToken, poToken.ok ? `TTL ${poToken.ttl}s` : undefined)}`,
+    report.ok ? 'All checks passed' : 'Some checks failed'
+  );
+  return {
+    json: { ...report, runtimes: getRuntimesJson(runtimes) },
+    text: lines.join('\n'),
+    exitCode: report.ok ? 0 : 1
+  };
+}
+
+async function pot(
+  options: Options,
+  identifier?: string
+): Promise<CommandResult> {
+  if (!identifier) {
+    throw new UsageError('Missing <identifier>');
+  }
+  const data = await withWrapper(options, (wrapper) =>
+    wrapper.generatePoToken(identifier)
+  );
+  return { json: data, text: data.poToken };
+}
+
+async function sessionPot(options: Options): Promise<CommandResult> {
+  const { data, identifierType } = await withWrapper(
+    options,
+    async (wrapper) => ({
+      data: await wrapper.getSessionPoToken(),
+      identifierType: wrapper.getSessionPoTokenStatus().identifierType
+    })
+  );
+  if (!data) {
+    throw Error('Session identifier unavailable');
+  }
+  return { json: { ...data, identifierType }, text: data.poToken };
+}
+
+async function resolve(
+  options: Options,
+  videoId?: string
+): Promise<CommandResult> {
+  if (!videoId) {
+    throw new UsageError('Missing <videoId>');
+  }
+  const type = (options.type || 'audio') as StreamType;
+  if (!STREAM_TYPES.includes(type)) {
+    throw new UsageError(`Unknown stream type "${type}"`);
+  }
+  const client = options.client as ClientProfileName | undefined;
+  if (client && !(client in CLIENT_PROFILES)) {
+    throw new UsageError(`Unknown client "${client}"`);
+  }
+  const stream = await withWrapper(options, (wrapper) =>
+    wrapper.resolveStream(videoId, { type, client })
+  );
+  return { json: stream, text: stream.url };
+}
+
+async function accounts(options: Options): Promise<CommandResult> {
+  const cookie = getCookie(options);
+  if (!cookie) {
+    throw new UsageError('accounts requires --cookie-file');
+  }
+  // Listing accounts does not require the support service
+  const innertube = await Innertube.create({ cookie });
+  if (!innertube.session.logged_in) {
+    throw Error('Not signed in - check that the cookie is valid');
+  }
+  const list: AccountInfo[] = (await innertube.account.getInfo(true)).map(
+    (ac) => ({
+      name: String(ac.account_name),
+      handle: String(ac.channel_handle),
+      selected: !!ac.is_selected,
+      disabled: !!ac.is_disabled
+    })
+  );
+  return {
+    json: list,
+    text: list
+      .map(
+        ({ name, handle, selected, disabled }) =>
+          `${selected ? '*' : ' '} ${name} (${handle})${disabled ? ' [disabled]' : ''}`
+      )
+      .join('\n')
+  };
+}
+
+async function run(options: Options, positionals: string[]) {
+  const [command, arg] = positionals;
+  switch (command) {
+    case 'doctor':
+      return doctor(options);
+    case 'pot':
+      return pot(options, arg);
+    case 'session-pot':
+      return sessionPot(options);
+    case 'resolve':
+      return resolve(options, arg);
+    case 'accounts':
+      return accounts(options);
+    default:
+      throw new UsageError(
+        command ? `Unknown command "${command}"` : 'Missing command'
+      );
+  }
+}
+
+async function main() {
+  let parsed;
+  try {
+    parsed = getOptions();
+  } catch (error: unknown) {
+    console.error(`${getErrorMessage('', error, false)}\n`);
+    console.error(USAGE);
+    return 2;
+  }
+  const { values: options, positionals } = parsed;
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  try {
+    const result = await run(options, positionals);
+    console.log(
+      options.json ? JSON.stringify(result.json, null, 2) : result.text
+    );
+    return result.exitCode ?? 0;
+  } catch (error: unknown) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n`);
+      console.error(USAGE);
+      return 2;
+    }
+    const message = getErrorMessage('', error, false);
+    if (options.json) {
+      console.log(JSON.stringify({ ok: false, error: message }, null, 2));
+    } else {
+      console.error(`Error: ${message}`);
+    }
+    return 1;
+  }
+}
+
+// Exit explicitly, as the Innertube session may leave handles open
+void main().then((exitCode) => process.exit(exitCode));
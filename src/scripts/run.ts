@@ -1,9 +1,25 @@
+// Must come first, as dependencies may access `process.env` on load
+import '../lib/innertube/DenoEnv';
 import { InnertubeSupportService } from '../lib/innertube/Service';
+import {
+  type BootstrapMessage,
+  decodeMessage,
+  encodeMessage,
+  PARENT_RPC_METHODS,
+  PROTOCOL_VERSION
+} from '../lib/innertube/Protocol';
+import { readStdinLines } from '../lib/innertube/Stdio';
+import { RpcChannel } from '../lib/innertube/Rpc';
 
 const service = new InnertubeSupportService();
+let bootstrapped = false;
 
-process.on('SIGTERM', () => {
-  console.log('Received SIGTERM');
+// RPC over stdio with the parent process
+const stdioChannel = new RpcChannel((payload) => {
+  console.log(encodeMessage({ type: 'rpc', payload }));
+});
+
+function shutdown() {
   void (async () => {
     try {
       await service.stop();
@@ -11,23 +27,115 @@ process.on('SIGTERM', () => {
       process.exit(0);
     }
   })();
-});
+}
 
-try {
-  const args: string[] =
-    typeof (globalThis as any).Deno !== 'undefined' ?
-      (globalThis as any).Deno.args
-    : (globalThis as any).process.argv.slice(2);
-  const challengeResponse =
-    args[args.indexOf('--challenge_response') + 1] || '{}';
-  void (async () => {
-    const status = await service.start({ challengeResponse });
-    console.log(`result: ${JSON.stringify(status)}`);
-  })();
-} catch (error) {
+function sendHandshakeError(error: unknown) {
   console.log(
-    `result: ${JSON.stringify({
+    encodeMessage({
+      type: 'handshake',
+      version: PROTOCOL_VERSION,
+      ok: false,
       error: error instanceof Error ? error.message : String(error)
-    })}`
+    })
+  );
+}
+
+async function bootstrap(message: BootstrapMessage) {
+  if (message.version !== PROTOCOL_VERSION) {
+    throw Error(
+      `Protocol version mismatch (expected ${PROTOCOL_VERSION}, got ${message.version})`
+    );
+  }
+  const { challengeResponse, secret, options } = message;
+  if (!secret) {
+    throw Error('Service secret not provided');
+  }
+  const status = await service.start({
+    challengeResponse,
+    secret,
+    options,
+    stdioChannel,
+    getChallengeResponse: () =>
+      stdioChannel.call(PARENT_RPC_METHODS.GET_CHALLENGE),
+    onMinterRefreshFailed: (failure) => {
+      console.log(
+        `Failed to refresh minter (attempt #${failure.attempt}): ${failure.error}`
+      );
+      stdioChannel
+        .call(PARENT_RPC_METHODS.MINTER_REFRESH_FAILED, failure)
+        .catch(() => null);
+    },
+    onMinterRotated: () => {
+      stdioChannel.call(PARENT_RPC_METHODS.MINTER_ROTATED).catch(() => null);
+    }
+  });
+  console.log(
+    encodeMessage({
+      type: 'handshake',
+      version: PROTOCOL_VERSION,
+      ok: true,
+      status
+    })
   );
 }
+
+function runChild() {
+  process.on('SIGTERM', () => {
+    console.log('Received SIGTERM');
+    shutdown();
+  });
+
+  readStdinLines({
+    onLine: (line) => {
+      try {
+        const message = decodeMessage(line);
+        if (message?.type === 'rpc') {
+          stdioChannel.receive(message.payload);
+        } else if (message?.type === 'bootstrap' && !bootstrapped) {
+          bootstrapped = true;
+          bootstrap(message).catch((error: unknown) => {
+            sendHandshakeError(error);
+          });
+        }
+      } catch (error) {
+        if (!bootstrapped) {
+          bootstrapped = true;
+          sendHandshakeError(error);
+        }
+      }
+    },
+    onClose: () => {
+      // Parent has gone away
+      console.log('stdin closed');
+      stdioChannel.close();
+      shutdown();
+    }
+  });
+}
+
+/**
+ * Normally spawned by the wrapper, which bootstraps the service through
+ * stdin. With `--config <file>`, runs as a standalone daemon instead.
+ */
+const configIndex = process.argv.indexOf('--config');
+if (configIndex >= 0) {
+  const configFile = process.argv[configIndex + 1];
+  void (async () => {
+    try {
+      if (!configFile) {
+        throw Error('Missing config file after "--config"');
+      }
+      // Loaded on demand so child processes do not pull in Innertube
+      const { loadDaemonConfig, runDaemon } =
+        await import('../lib/innertube/Daemon');
+      await runDaemon(loadDaemonConfig(configFile));
+    } catch (error: unknown) {
+      console.error(
+        `Failed to start daemon: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  })();
+} else {
+  runChild();
+}
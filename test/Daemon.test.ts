@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import {
+  DaemonConfigError,
+  loadDaemonConfig
+} from '../src/lib/innertube/Daemon';
+
+describe('loadDaemonConfig', () => {
+  let dir: string;
+  let count = 0;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'yt-support-daemon-'));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeFile(content: string) {
+    const file = path.join(dir, `file-${count++}`);
+    fs.writeFileSync(file, content);
+    return file;
+  }
+
+  function writeConfig(config: unknown) {
+    return writeFile(JSON.stringify(config));
+  }
+
+  function assertConfigError(file: string, message: RegExp) {
+    assert.throws(
+      () => loadDaemonConfig(file),
+      (error: unknown) =>
+        error instanceof DaemonConfigError && message.test(error.message)
+    );
+  }
+
+  it('defaults to the http transport', () => {
+    const config = loadDaemonConfig(writeConfig({ port: 8080, secret: 's' }));
+    assert.equal(config.transport, 'http');
+    assert.equal(config.port, 8080);
+  });
+
+  it('reads the secret from secretFile', () => {
+    const secretFile = writeFile('s3cret\n');
+    const config = loadDaemonConfig(
+      writeConfig({
+        transport: 'socket',
+        socketPath: '/tmp/s.sock',
+        secretFile
+      })
+    );
+    assert.equal(config.secret, 's3cret');
+  });
+
+  it('prefers secret over secretFile', () => {
+    const config = loadDaemonConfig(
+      writeConfig({
+        port: 8080,
+        secret: 'inline',
+        secretFile: path.join(dir, 'missing')
+      })
+    );
+    assert.equal(config.secret, 'inline');
+  });
+
+  it('rejects unreadable or malformed config files', () => {
+    assertConfigError(path.join(dir, 'missing'), /Failed to read config/);
+    assertConfigError(writeFile('{'), /Failed to read config/);
+    assertConfigError(writeFile('null'), /Invalid config/);
+  });
+
+  it('rejects invalid transport settings', () => {
+    assertConfigError(
+      writeConfig({ transport: 'stdio', secret: 's' }),
+      /Unsupported transport "stdio"/
+    );
+    assertConfigError(writeConfig({ secret: 's' }), /requires "port"/);
+    assertConfigError(
+      writeConfig({ transport: 'socket', secret: 's' }),
+      /requires "socketPath"/
+    );
+  });
+
+  it('requires a secret', () => {
+    assertConfigError(writeConfig({ port: 8080 }), /"secret" or "secretFile"/);
+    assertConfigError(writeConfig({ port: 8080, secret: '' }), /"secret"/);
+    assertConfigError(
+      writeConfig({ port: 8080, secretFile: path.join(dir, 'missing') }),
+      /Failed to read secret file/
+    );
+    assertConfigError(
+      writeConfig({ port: 8080, secretFile: writeFile('  \n') }),
+      /"secret" or "secretFile"/
+    );
+  });
+});
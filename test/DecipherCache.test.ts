@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DecipherCache } from '../src/lib/innertube/DecipherCache';
+
+describe('DecipherCache', () => {
+  it('memoizes results per scope and env', () => {
+    const cache = new DecipherCache();
+    cache.set('player1', { n: 'abc' }, 'result1');
+    assert.deepEqual(cache.get('player1', { n: 'abc' }), { value: 'result1' });
+    assert.equal(cache.get('player2', { n: 'abc' }), undefined);
+    assert.equal(cache.get('player1', { n: 'xyz' }), undefined);
+  });
+
+  it('ignores the order of env properties', () => {
+    const cache = new DecipherCache();
+    cache.set('player', { n: 'a', sig: 'b' }, 'result');
+    assert.deepEqual(cache.get('player', { sig: 'b', n: 'a' }), {
+      value: 'result'
+    });
+  });
+
+  it('wraps cached values, so that falsy results are told from misses', () => {
+    const cache = new DecipherCache();
+    cache.set('player', { n: 'a' }, '');
+    assert.deepEqual(cache.get('player', { n: 'a' }), { value: '' });
+  });
+
+  it('counts hits and misses, and is bounded by maxSize', () => {
+    const cache = new DecipherCache(2);
+    cache.set('p', { n: '1' }, 1);
+    cache.set('p', { n: '2' }, 2);
+    cache.set('p', { n: '3' }, 3);
+    assert.equal(cache.get('p', { n: '1' }), undefined);
+    assert.ok(cache.get('p', { n: '3' }));
+    assert.deepEqual(cache.getStats(), { hits: 1, misses: 1, size: 2 });
+    cache.clear();
+    assert.equal(cache.getStats().size, 0);
+  });
+});
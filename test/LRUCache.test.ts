@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { LRUCache } from '../src/lib/utils/LRUCache';
+
+describe('LRUCache', () => {
+  it('evicts the least recently used entry', () => {
+    const cache = new LRUCache<string, number>(2);
+    cache.set('a', 1).set('b', 2);
+    // Makes 'b' the least recently used
+    assert.equal(cache.get('a'), 1);
+    cache.set('c', 3);
+    assert.equal(cache.has('b'), false);
+    assert.equal(cache.has('a'), true);
+    assert.equal(cache.has('c'), true);
+  });
+
+  it('refreshes recency when an entry is replaced', () => {
+    const cache = new LRUCache<string, number>(2);
+    cache.set('a', 1).set('b', 2).set('a', 3).set('c', 4);
+    assert.equal(cache.get('a'), 3);
+    assert.equal(cache.has('b'), false);
+    assert.equal(cache.size, 2);
+  });
+
+  it('does not count has() as use', () => {
+    const cache = new LRUCache<string, number>(2);
+    cache.set('a', 1).set('b', 2);
+    assert.equal(cache.has('a'), true);
+    cache.set('c', 3);
+    assert.equal(cache.has('a'), false);
+  });
+
+  it('caches falsy values', () => {
+    const cache = new LRUCache<string, number>(1);
+    cache.set('zero', 0);
+    assert.equal(cache.get('zero'), 0);
+  });
+
+  it('supports delete() and clear()', () => {
+    const cache = new LRUCache<string, number>(3);
+    cache.set('a', 1).set('b', 2);
+    assert.equal(cache.delete('a'), true);
+    assert.equal(cache.delete('a'), false);
+    cache.clear();
+    assert.equal(cache.size, 0);
+  });
+
+  it('requires maxSize of at least 1', () => {
+    assert.throws(() => new LRUCache(0));
+  });
+});
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ServiceMetrics } from '../src/lib/innertube/Metrics';
+
+describe('ServiceMetrics', () => {
+  it('starts out empty', () => {
+    assert.deepEqual(new ServiceMetrics().getSnapshot(), {
+      poTokensMinted: 0,
+      minterRefreshes: 0,
+      minterRefreshFailures: 0,
+      evals: { count: 0, failed: 0, latency: null },
+      lastError: null
+    });
+  });
+
+  it('counts events', () => {
+    const metrics = new ServiceMetrics();
+    metrics.recordPoTokenMinted();
+    metrics.recordPoTokenMinted();
+    metrics.recordMinterRefresh();
+    metrics.recordEval(5, true);
+    metrics.recordEval(7, false);
+    metrics.recordError('minter', Error('Attestation failed'));
+    metrics.recordError('eval', 'Eval timed out');
+    const snapshot = metrics.getSnapshot();
+    assert.equal(snapshot.poTokensMinted, 2);
+    assert.equal(snapshot.minterRefreshes, 1);
+    assert.equal(snapshot.minterRefreshFailures, 1);
+    assert.equal(snapshot.evals.count, 2);
+    assert.equal(snapshot.evals.failed, 1);
+    assert.equal(snapshot.lastError?.source, 'eval');
+    assert.equal(snapshot.lastError?.message, 'Eval timed out');
+  });
+
+  it('computes nearest-rank latency percentiles', () => {
+    const metrics = new ServiceMetrics();
+    // Recorded out of order: 100, 99, ..., 1
+    for (let latency = 100; latency > 0; latency--) {
+      metrics.recordEval(latency, true);
+    }
+    assert.deepEqual(metrics.getSnapshot().evals.latency, {
+      p50: 50,
+      p90: 90,
+      p99: 99
+    });
+  });
+
+  it('computes percentiles over the most recent evals only', () => {
+    const metrics = new ServiceMetrics();
+    for (let i = 0; i < 500; i++) {
+      metrics.recordEval(1000, true);
+    }
+    for (let i = 0; i < 500; i++) {
+      metrics.recordEval(1, true);
+    }
+    const { count, latency } = metrics.getSnapshot().evals;
+    assert.equal(count, 1000);
+    assert.deepEqual(latency, { p50: 1, p90: 1, p99: 1 });
+  });
+});
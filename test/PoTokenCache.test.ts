@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { PoTokenCache } from '../src/lib/innertube/PoTokenCache';
+import { type PoTokenData } from '../src/lib/innertube/PoToken';
+
+function createMint(ttl = 3600, refreshThreshold = 600) {
+  let count = 0;
+  const mint = (identifier: string): Promise<PoTokenData> => {
+    count++;
+    return Promise.resolve({
+      poToken: `${identifier}#${count}`,
+      ttl,
+      refreshThreshold
+    });
+  };
+  return { mint, getCount: () => count };
+}
+
+describe('PoTokenCache', () => {
+  it('serves tokens from cache until due for refresh', async () => {
+    const cache = new PoTokenCache();
+    const { mint, getCount } = createMint();
+    const first = await cache.get('video', mint);
+    const second = await cache.get('video', mint);
+    assert.equal(second.poToken, first.poToken);
+    assert.equal(getCount(), 1);
+    assert.deepEqual(cache.getStats(), { hits: 1, misses: 1, size: 1 });
+  });
+
+  it('mints again once the refresh threshold is reached', async () => {
+    const cache = new PoTokenCache();
+    // Due for refresh as soon as it is obtained
+    const { mint, getCount } = createMint(10, 10);
+    await cache.get('video', mint);
+    await cache.get('video', mint);
+    assert.equal(getCount(), 2);
+  });
+
+  it('shares a single mint between concurrent requests', async () => {
+    const cache = new PoTokenCache();
+    const { mint, getCount } = createMint();
+    const [a, b] = await Promise.all([
+      cache.get('video', mint),
+      cache.get('video', mint)
+    ]);
+    assert.equal(a, b);
+    assert.equal(getCount(), 1);
+  });
+
+  it('does not cache failed mints', async () => {
+    const cache = new PoTokenCache();
+    await assert.rejects(
+      cache.get('video', () => Promise.reject(Error('mint failed')))
+    );
+    const { mint, getCount } = createMint();
+    await cache.get('video', mint);
+    assert.equal(getCount(), 1);
+  });
+
+  it('does not cache tokens being minted when cleared', async () => {
+    const cache = new PoTokenCache();
+    let resolveMint: (data: PoTokenData) => void = () => undefined;
+    const pending = cache.get(
+      'video',
+      () =>
+        new Promise<PoTokenData>((resolve) => {
+          resolveMint = resolve;
+        })
+    );
+    cache.clear();
+    resolveMint({ poToken: 'stale', ttl: 3600, refreshThreshold: 600 });
+    assert.equal((await pending).poToken, 'stale');
+    const { mint } = createMint();
+    assert.equal((await cache.get('video', mint)).poToken, 'video#1');
+  });
+});
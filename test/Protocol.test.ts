@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  decodeMessage,
+  encodeMessage,
+  PROTOCOL_VERSION,
+  verifySecret
+} from '../src/lib/innertube/Protocol';
+
+describe('verifySecret', () => {
+  it('accepts the expected secret', () => {
+    assert.equal(verifySecret('s3cret', 's3cret'), true);
+  });
+
+  it('rejects a missing, different or differently sized secret', () => {
+    assert.equal(verifySecret(undefined, 's3cret'), false);
+    assert.equal(verifySecret('', 's3cret'), false);
+    assert.equal(verifySecret('s3creT', 's3cret'), false);
+    assert.equal(verifySecret('s3cret!', 's3cret'), false);
+  });
+});
+
+describe('encodeMessage / decodeMessage', () => {
+  it('round-trips a protocol message', () => {
+    const message = {
+      type: 'handshake' as const,
+      version: PROTOCOL_VERSION,
+      ok: false as const,
+      error: 'failed'
+    };
+    assert.deepEqual(decodeMessage(encodeMessage(message)), message);
+  });
+
+  it('returns null for log output', () => {
+    assert.equal(decodeMessage('Service started'), null);
+  });
+
+  it('throws on malformed protocol messages', () => {
+    const prefix = encodeMessage({
+      type: 'rpc',
+      payload: { jsonrpc: '2.0', id: 1, result: null }
+    }).split('{')[0];
+    assert.throws(() => decodeMessage(`${prefix}{`));
+    assert.throws(() => decodeMessage(`${prefix}{"noType":true}`));
+  });
+});
@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  RPC_ERROR_CODES,
+  RpcChannel,
+  RpcError,
+  type RpcMessage
+} from '../src/lib/innertube/Rpc';
+
+// Two channels exchanging messages as JSON lines, as over stdio / sockets
+function createPair() {
+  const server: RpcChannel = new RpcChannel((message) => {
+    setImmediate(() => client.receiveLine(JSON.stringify(message)));
+  });
+  const client: RpcChannel = new RpcChannel((message) => {
+    setImmediate(() => server.receiveLine(JSON.stringify(message)));
+  });
+  return { server, client };
+}
+
+function assertRpcError(code: number) {
+  return (error: unknown) => error instanceof RpcError && error.code === code;
+}
+
+describe('RpcChannel', () => {
+  it('calls handlers registered on the other end', async () => {
+    const { server, client } = createPair();
+    server.register('add', ({ a, b }: { a: number; b: number }) => a + b);
+    assert.equal(await client.call('add', { a: 1, b: 2 }), 3);
+  });
+
+  it('responds with null when a handler returns nothing', async () => {
+    const { server, client } = createPair();
+    server.register('noop', () => undefined);
+    assert.equal(await client.call('noop'), null);
+  });
+
+  it('matches responses to concurrent calls by id', async () => {
+    const { server, client } = createPair();
+    server.register(
+      'echo',
+      async ({ value, delay }: { value: string; delay: number }) => {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        return value;
+      }
+    );
+    const results = await Promise.all([
+      client.call('echo', { value: 'slow', delay: 20 }),
+      client.call('echo', { value: 'fast', delay: 0 })
+    ]);
+    assert.deepEqual(results, ['slow', 'fast']);
+  });
+
+  it('rejects calls to unknown methods', async () => {
+    const { client } = createPair();
+    await assert.rejects(
+      client.call('missing'),
+      assertRpcError(RPC_ERROR_CODES.METHOD_NOT_FOUND)
+    );
+  });
+
+  it('passes handler errors to the caller', async () => {
+    const { server, client } = createPair();
+    server.register('fail', () => {
+      throw Error('boom');
+    });
+    server.register('unauthorized', () => {
+      throw new RpcError(RPC_ERROR_CODES.UNAUTHORIZED, 'Unauthorized');
+    });
+    await assert.rejects(
+      client.call('fail'),
+      (error: unknown) =>
+        error instanceof RpcError &&
+        error.code === RPC_ERROR_CODES.HANDLER_ERROR &&
+        error.message === 'boom'
+    );
+    await assert.rejects(
+      client.call('unauthorized'),
+      assertRpcError(RPC_ERROR_CODES.UNAUTHORIZED)
+    );
+  });
+
+  it('answers unparseable and invalid lines with errors', () => {
+    const sent: RpcMessage[] = [];
+    const channel = new RpcChannel((message) => sent.push(message));
+    channel.receiveLine('{not json');
+    channel.receiveLine('{"id":1,"method":"x"}');
+    assert.deepEqual(
+      sent.map((message) => 'error' in message && message.error.code),
+      [RPC_ERROR_CODES.PARSE_ERROR, RPC_ERROR_CODES.INVALID_REQUEST]
+    );
+  });
+
+  it('rejects pending and further calls once closed', async () => {
+    const channel = new RpcChannel(() => undefined);
+    const pending = channel.call('never');
+    channel.close('Service process closed');
+    await assert.rejects(
+      pending,
+      (error: unknown) =>
+        error instanceof RpcError &&
+        error.code === RPC_ERROR_CODES.CHANNEL_CLOSED &&
+        error.message === 'Service process closed'
+    );
+    await assert.rejects(
+      channel.call('later'),
+      assertRpcError(RPC_ERROR_CODES.CHANNEL_CLOSED)
+    );
+  });
+
+  it('rejects calls that cannot be sent', async () => {
+    const channel = new RpcChannel(() => {
+      throw Error('stream destroyed');
+    });
+    await assert.rejects(
+      channel.call('x'),
+      assertRpcError(RPC_ERROR_CODES.INTERNAL_ERROR)
+    );
+  });
+});
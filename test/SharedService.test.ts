@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  type SharedServiceConfig,
+  SharedServiceLease,
+  type SharedServiceLeaseConfig
+} from '../src/lib/innertube/SharedService';
+
+function createLeaseConfig(messages: string[] = []): SharedServiceLeaseConfig {
+  return {
+    getChallengeResponse: () => Promise.reject(Error('Not implemented')),
+    callbacks: {} as SharedServiceLeaseConfig['callbacks'],
+    logger: {
+      info: (msg) => messages.push(msg),
+      warn: (msg) => messages.push(msg),
+      error: (msg) => messages.push(msg)
+    }
+  };
+}
+
+// Shared services are tracked process-wide, so each test uses its own config
+function createConfig(name: string): SharedServiceConfig {
+  return { jsRuntime: 'node', runtimePaths: { node: `/opt/${name}/node` } };
+}
+
+describe('SharedServiceLease', () => {
+  it('shares the service between leases configured alike', () => {
+    const messages: string[] = [];
+    const a = new SharedServiceLease(
+      createConfig('alike'),
+      createLeaseConfig()
+    );
+    const b = new SharedServiceLease(
+      createConfig('alike'),
+      createLeaseConfig(messages)
+    );
+    assert.equal(a.refCount, 2);
+    assert.equal(b.refCount, 2);
+    assert.deepEqual(messages, [
+      'Sharing Innertube support service with 1 other instance(s)'
+    ]);
+  });
+
+  it('does not share the service between leases configured differently', () => {
+    const a = new SharedServiceLease(
+      createConfig('different-a'),
+      createLeaseConfig()
+    );
+    const b = new SharedServiceLease(
+      createConfig('different-b'),
+      createLeaseConfig()
+    );
+    assert.equal(a.refCount, 1);
+    assert.equal(b.refCount, 1);
+  });
+
+  it('releases leases once', async () => {
+    const a = new SharedServiceLease(
+      createConfig('release'),
+      createLeaseConfig()
+    );
+    const b = new SharedServiceLease(
+      createConfig('release'),
+      createLeaseConfig()
+    );
+    await a.stop();
+    await a.stop();
+    assert.equal(a.refCount, 0);
+    assert.equal(a.service, null);
+    assert.throws(() => a.getService(), /already stopped/);
+    assert.equal(b.refCount, 1);
+  });
+
+  it('discards the shared service when the last lease is released', async () => {
+    const a = new SharedServiceLease(createConfig('last'), createLeaseConfig());
+    await a.stop();
+    const messages: string[] = [];
+    const b = new SharedServiceLease(
+      createConfig('last'),
+      createLeaseConfig(messages)
+    );
+    assert.equal(b.refCount, 1);
+    assert.deepEqual(messages, []);
+  });
+});
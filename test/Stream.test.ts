@@ -0,0 +1,204 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { type Misc, type Player, Utils } from 'volumio-youtubei.js';
+import { ServiceEvalError } from '../src/lib/innertube/Protocol';
+import {
+  chooseStreamFormat,
+  decipherStreamUrl,
+  getResolvedStreamFormat,
+  getStreamUrlExpiry,
+  setStreamUrlPoToken,
+  StreamDecipherError
+} from '../src/lib/innertube/Stream';
+
+function createFormat(props: Partial<Misc.Format>) {
+  return {
+    itag: 0,
+    mime_type: 'audio/webm; codecs="opus"',
+    bitrate: 0,
+    has_audio: true,
+    has_video: false,
+    ...props
+  } as Misc.Format;
+}
+
+const formats = [
+  createFormat({
+    itag: 251,
+    mime_type: 'audio/webm; codecs="opus"',
+    bitrate: 160000
+  }),
+  createFormat({
+    itag: 250,
+    mime_type: 'audio/webm; codecs="opus"',
+    bitrate: 70000
+  }),
+  createFormat({
+    itag: 140,
+    mime_type: 'audio/mp4; codecs="mp4a.40.2"',
+    bitrate: 130000
+  }),
+  createFormat({
+    itag: 18,
+    mime_type: 'video/mp4; codecs="avc1.42001E, mp4a.40.2"',
+    bitrate: 500000,
+    has_video: true
+  }),
+  createFormat({
+    itag: 137,
+    mime_type: 'video/mp4; codecs="avc1.640028"',
+    bitrate: 4000000,
+    has_audio: false,
+    has_video: true
+  })
+];
+
+describe('chooseStreamFormat', () => {
+  it('picks the best audio-only format by default', () => {
+    assert.equal(chooseStreamFormat(formats, {})?.itag, 251);
+  });
+
+  it('matches type, codec and container', () => {
+    assert.equal(chooseStreamFormat(formats, { codec: 'mp4a' })?.itag, 140);
+    assert.equal(chooseStreamFormat(formats, { container: 'mp4' })?.itag, 140);
+    assert.equal(chooseStreamFormat(formats, { type: 'video' })?.itag, 137);
+    assert.equal(
+      chooseStreamFormat(formats, { type: 'video+audio', codec: 'avc1' })?.itag,
+      18
+    );
+  });
+
+  it('honors maxBitrate and quality', () => {
+    assert.equal(chooseStreamFormat(formats, { quality: 'lowest' })?.itag, 250);
+    assert.equal(
+      chooseStreamFormat(formats, { maxBitrate: 150000 })?.itag,
+      140
+    );
+  });
+
+  it('returns null if no format matches', () => {
+    assert.equal(chooseStreamFormat(formats, { codec: 'flac' }), null);
+    assert.equal(chooseStreamFormat([], {}), null);
+  });
+});
+
+describe('getResolvedStreamFormat', () => {
+  it('parses container and codecs from the MIME type', () => {
+    const resolved = getResolvedStreamFormat(
+      createFormat({
+        itag: 18,
+        mime_type: 'video/mp4; codecs="avc1.42001E, mp4a.40.2"',
+        bitrate: 500000,
+        has_video: true,
+        audio_sample_rate: 44100,
+        audio_channels: 2,
+        content_length: 1024
+      })
+    );
+    assert.deepEqual(resolved, {
+      itag: 18,
+      mimeType: 'video/mp4; codecs="avc1.42001E, mp4a.40.2"',
+      container: 'mp4',
+      codecs: ['avc1.42001E', 'mp4a.40.2'],
+      bitrate: 500000,
+      sampleRate: 44100,
+      channels: 2,
+      contentLength: 1024,
+      hasAudio: true,
+      hasVideo: true
+    });
+  });
+
+  it('reports missing details as null', () => {
+    const resolved = getResolvedStreamFormat(
+      createFormat({ mime_type: 'audio/webm' })
+    );
+    assert.deepEqual(resolved.codecs, []);
+    assert.equal(resolved.sampleRate, null);
+    assert.equal(resolved.channels, null);
+    assert.equal(resolved.contentLength, null);
+  });
+});
+
+describe('stream URL params', () => {
+  it('reads the expiry time from the expire param', () => {
+    assert.equal(
+      getStreamUrlExpiry('https://example.com/videoplayback?expire=1700000000'),
+      1700000000000
+    );
+    assert.equal(getStreamUrlExpiry('https://example.com/videoplayback'), null);
+    assert.equal(
+      getStreamUrlExpiry('https://example.com/videoplayback?expire=soon'),
+      null
+    );
+  });
+
+  it('replaces the pot param', () => {
+    const url = setStreamUrlPoToken(
+      'https://example.com/videoplayback?pot=session&n=abc',
+      'content'
+    );
+    const params = new URL(url).searchParams;
+    assert.equal(params.get('pot'), 'content');
+    assert.equal(params.get('n'), 'abc');
+  });
+});
+
+describe('decipherStreamUrl', () => {
+  const player = {} as Player;
+
+  function createDecipherable(
+    decipher: () => Promise<string>,
+    url = 'https://example.com/videoplayback?n=original'
+  ) {
+    return createFormat({ itag: 251, url, decipher } as Partial<Misc.Format>);
+  }
+
+  it('returns the deciphered URL', async () => {
+    const format = createDecipherable(() =>
+      Promise.resolve('https://example.com/videoplayback?n=transformed')
+    );
+    assert.equal(
+      await decipherStreamUrl(format, player),
+      'https://example.com/videoplayback?n=transformed'
+    );
+  });
+
+  it('fails if the n param is left unchanged', async () => {
+    const format = createDecipherable(() =>
+      Promise.resolve('https://example.com/videoplayback?n=original')
+    );
+    await assert.rejects(
+      decipherStreamUrl(format, player),
+      (error: unknown) =>
+        error instanceof StreamDecipherError && error.itag === 251
+    );
+  });
+
+  it('wraps player failures in StreamDecipherError', async () => {
+    for (const failure of [
+      new Utils.PlayerError('Failed to extract n function'),
+      new ServiceEvalError('SCRIPT_ERROR', 'ReferenceError: x is not defined')
+    ]) {
+      const format = createDecipherable(() => Promise.reject(failure));
+      await assert.rejects(
+        decipherStreamUrl(format, player),
+        (error: unknown) =>
+          error instanceof StreamDecipherError && error.cause === failure
+      );
+    }
+  });
+
+  it('rethrows other errors as is', async () => {
+    for (const failure of [
+      new ServiceEvalError('TIMEOUT', 'Eval timed out'),
+      new TypeError('fetch failed')
+    ]) {
+      const format = createDecipherable(() => Promise.reject(failure));
+      await assert.rejects(
+        decipherStreamUrl(format, player),
+        (error: unknown) => error === failure
+      );
+    }
+  });
+});
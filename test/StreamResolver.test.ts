@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { type ResolvedStream } from '../src/lib/innertube/Stream';
+import { StreamResolver } from '../src/lib/innertube/StreamResolver';
+import { type InnertubeWrapper } from '../src/lib/innertube/Wrapper';
+
+const nullLogger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined
+};
+
+// Resolves streams expiring `expiresIn` ms from now
+function createResolver(expiresIn: number | null) {
+  let count = 0;
+  const wrapper = {
+    resolveStream: async (videoId: string) => {
+      count++;
+      await new Promise((resolve) => setImmediate(resolve));
+      return {
+        videoId,
+        url: `https://example.com/videoplayback?v=${videoId}&count=${count}`,
+        expires: expiresIn !== null ? Date.now() + expiresIn : null
+      } as ResolvedStream;
+    }
+  } as unknown as InnertubeWrapper;
+  const resolver = new StreamResolver({
+    wrapper,
+    expiryMargin: 60000,
+    logger: nullLogger
+  });
+  return { resolver, getCount: () => count };
+}
+
+describe('StreamResolver', () => {
+  it('coalesces concurrent requests', async () => {
+    const { resolver, getCount } = createResolver(3600000);
+    const [a, b] = await Promise.all([
+      resolver.resolve('abc'),
+      resolver.resolve('abc')
+    ]);
+    assert.equal(a, b);
+    assert.equal(getCount(), 1);
+  });
+
+  it('serves tracked streams expiring beyond the margin', async () => {
+    const { resolver, getCount } = createResolver(3600000);
+    const resolved = await resolver.resolve('abc', { codec: 'opus' });
+    assert.equal(
+      await resolver.prepareForPlayback('abc', {
+        codec: 'opus',
+        container: undefined
+      }),
+      resolved
+    );
+    assert.equal(
+      resolver.getExpiry('abc', { codec: 'opus' }),
+      resolved.expires
+    );
+    assert.equal(getCount(), 1);
+  });
+
+  it('tracks streams per options', async () => {
+    const { resolver, getCount } = createResolver(3600000);
+    await resolver.resolve('abc', { codec: 'opus' });
+    await resolver.prepareForPlayback('abc', { codec: 'mp4a' });
+    assert.equal(getCount(), 2);
+  });
+
+  it('re-resolves streams expiring within the margin', async () => {
+    const { resolver, getCount } = createResolver(30000);
+    const resolved = await resolver.resolve('abc');
+    assert.notEqual(await resolver.prepareForPlayback('abc'), resolved);
+    assert.equal(getCount(), 2);
+  });
+
+  it('re-resolves streams of unknown expiry', async () => {
+    const { resolver, getCount } = createResolver(null);
+    await resolver.resolve('abc');
+    await resolver.prepareForPlayback('abc');
+    assert.equal(getCount(), 2);
+  });
+
+  it('stops tracking invalidated streams', async () => {
+    const { resolver } = createResolver(3600000);
+    await resolver.resolve('abc');
+    await resolver.resolve('abcd');
+    resolver.invalidate('abc');
+    assert.equal(resolver.getExpiry('abc'), null);
+    assert.notEqual(resolver.getExpiry('abcd'), null);
+    resolver.invalidate();
+    assert.equal(resolver.getExpiry('abcd'), null);
+  });
+});